@@ -17,6 +17,7 @@ export default [
       globals: {
         console: 'readonly',
         process: 'readonly',
+        Buffer: 'readonly',
         __dirname: 'readonly',
         module: 'readonly',
         require: 'readonly',
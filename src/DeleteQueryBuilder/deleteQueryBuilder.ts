@@ -0,0 +1,126 @@
+import { FieldMapping, FieldValidator } from '../QueryBuilder/fieldMapping';
+import { FilterConditionBuilder, FilterNode } from '../QueryBuilder/filterConditionBuilder';
+import { ResponseMapper } from '../QueryBuilder/responseMapper';
+import { SqlIdentifier } from '../QueryBuilder/sqlIdentifier';
+import { InvalidQueryError } from '../QueryBuilder/errors';
+import { QueryScopes, ScopeConditions } from '../QueryBuilder/scopes';
+import { QueryBuilder } from '../QueryBuilder/queryBuilder';
+
+export interface DeleteOptions {
+    tableName: string;
+    mode?: 'hard' | 'soft';
+    requiredFilters?: Record<string, any>;
+    queryParams?: Record<string, any>;
+    filter?: FilterNode;
+    excludeFields?: string[];
+    returning?: string[] | string;
+    allowUnfiltered?: boolean;
+}
+
+export class DeleteQueryBuilder {
+    private schema: string;
+    private fieldMappings: Map<string, FieldMapping>;
+    private validator: FieldValidator;
+    private responseMapper: ResponseMapper;
+    private scopes: QueryScopes;
+    private softDeleteField: string | null;
+    private debug: boolean;
+
+    constructor(schema: string, fieldMappings: Record<string, FieldMapping>, debug: boolean = false) {
+        this.schema = SqlIdentifier.sanitize(schema);
+        this.fieldMappings = new Map(Object.entries(fieldMappings));
+        this.validator = new FieldValidator(this.fieldMappings);
+        this.responseMapper = new ResponseMapper(this.fieldMappings);
+        this.scopes = new QueryScopes();
+        this.softDeleteField = Object.keys(fieldMappings).find(field => fieldMappings[field].softDelete) ?? null;
+        this.debug = debug;
+    }
+
+    /** Adds conditions to every delete; see QueryBuilder.addScope */
+    addScope(name: string, conditions: ScopeConditions): this {
+        this.scopes.add(name, conditions, this.fieldMappings);
+        return this;
+    }
+
+    /**
+     * Shares the scopes of a QueryBuilder, including ones added to it later, so every delete is
+     * scoped like the reads. Scopes added here are added to that builder as well.
+     */
+    useScopes(source: QueryBuilder<any, any>): this {
+        this.scopes = source.getScopeSet();
+        return this;
+    }
+
+    /** Returns a builder without the named scopes; this one keeps them */
+    unscoped(...names: string[]): DeleteQueryBuilder {
+        const view: DeleteQueryBuilder = Object.create(Object.getPrototypeOf(this));
+        Object.assign(view, this);
+        view.scopes = this.scopes.without(names);
+        return view;
+    }
+
+    buildDeleteQuery(config: DeleteOptions): { text: string, values: any[] } {
+        const {
+            tableName,
+            mode = this.softDeleteField ? 'soft' : 'hard',
+            requiredFilters = {},
+            queryParams = {},
+            filter,
+            excludeFields = [],
+            returning = [],
+            allowUnfiltered = false
+        } = config;
+
+        const filterBuilder = new FilterConditionBuilder(this.fieldMappings);
+        filterBuilder
+            .addRequiredConditions(requiredFilters)
+            .addDynamicFilters(queryParams, excludeFields)
+            .addFilterTree(filter);
+
+        if (!filterBuilder.build().text && !allowUnfiltered) {
+            throw new InvalidQueryError('Refusing to build DELETE without filter conditions; set allowUnfiltered to delete every row');
+        }
+        // Applied after the check above: scopes alone do not count as a filter
+        this.scopes.apply(filterBuilder);
+
+        const returningFields = this.validator.validateReturningFields(returning);
+        const returningClause = returningFields.length > 0 ? `RETURNING ${returningFields.join(', ')}` : '';
+        const sanitizedTableName = SqlIdentifier.sanitize(tableName);
+
+        const isSoftDelete = mode === 'soft';
+        let softDeleteColumn = '';
+        if (isSoftDelete) {
+            if (!this.softDeleteField) {
+                throw new InvalidQueryError('Soft delete requires a field mapping flagged with softDelete');
+            }
+            softDeleteColumn = this.validator.validateWritableField(this.softDeleteField);
+            filterBuilder.addCondition(this.softDeleteField, 'isNull', null);
+        }
+
+        const filters = filterBuilder.build();
+        const text = isSoftDelete
+            ? `
+                UPDATE ${this.schema}.${sanitizedTableName}
+                SET ${softDeleteColumn} = now()
+                ${filters.text}
+                ${returningClause}
+            `
+            : `
+                DELETE FROM ${this.schema}.${sanitizedTableName}
+                ${filters.text}
+                ${returningClause}
+            `;
+
+        const query = { text, values: filters.values };
+
+        if (this.debug) {
+            console.log('DEBUG: Generated Delete Query:', query);
+        }
+
+        return query;
+    }
+
+    mapReturning(rows: Record<string, any>[]): Record<string, any>[] {
+        return this.responseMapper.mapResponses(rows);
+    }
+}
@@ -0,0 +1,150 @@
+import { FieldMapping, FieldValidator } from '../QueryBuilder/fieldMapping';
+import { ResponseMapper } from '../QueryBuilder/responseMapper';
+import { SqlIdentifier } from '../QueryBuilder/sqlIdentifier';
+import { InvalidFieldError, InvalidQueryError, InvalidValueError } from '../QueryBuilder/errors';
+
+export interface OnConflictOptions {
+    target: string[];
+    action: 'nothing' | 'update';
+    updateFields?: string[];
+}
+
+export interface InsertOptions {
+    tableName: string;
+    rows: Record<string, any> | Record<string, any>[];
+    onConflict?: OnConflictOptions;
+    returning?: string[] | string;
+}
+
+export class InsertQueryBuilder {
+    private schema: string;
+    private fieldMappings: Map<string, FieldMapping>;
+    private validator: FieldValidator;
+    private responseMapper: ResponseMapper;
+    private debug: boolean;
+
+    constructor(schema: string, fieldMappings: Record<string, FieldMapping>, debug: boolean = false) {
+        this.schema = SqlIdentifier.sanitize(schema);
+        this.fieldMappings = new Map(Object.entries(fieldMappings));
+        this.validator = new FieldValidator(this.fieldMappings);
+        this.responseMapper = new ResponseMapper(this.fieldMappings);
+        this.debug = debug;
+    }
+
+    buildInsertQuery(config: InsertOptions): { text: string, values: any[] } {
+        const { tableName, onConflict, returning = [] } = config;
+        const rows = Array.isArray(config.rows) ? config.rows : [config.rows];
+
+        if (rows.length === 0) {
+            throw new InvalidQueryError('No rows specified for insert');
+        }
+
+        const fields = this.resolveInsertFields(rows);
+        const columns = fields.map(field => this.validator.validateWritableField(field));
+        const values: any[] = [];
+
+        const valueRows = rows.map((row, rowIndex) => {
+            const placeholders = fields.map(field => {
+                const value = this.resolveValue(field, row);
+                if (value === undefined) {
+                    if (this.fieldMappings.get(field)!.required) {
+                        throw new InvalidValueError(`Field is required: ${field} (row ${rowIndex})`, { field, reason: 'required' });
+                    }
+                    return 'DEFAULT';
+                }
+                this.validator.validateValue(field, value);
+                values.push(value);
+                return `$${values.length}`;
+            });
+            return `(${placeholders.join(', ')})`;
+        });
+
+        // Columns filled from mapping defaults are left out of the default update list, so an upsert
+        // does not overwrite an existing row's values with them
+        const suppliedFields = fields.filter(field => rows.some(row => Object.prototype.hasOwnProperty.call(row, field)));
+        const conflictClause = onConflict ? this.buildConflictClause(onConflict, suppliedFields) : '';
+        const returningFields = this.validator.validateReturningFields(returning);
+        const returningClause = returningFields.length > 0 ? `RETURNING ${returningFields.join(', ')}` : '';
+        const sanitizedTableName = SqlIdentifier.sanitize(tableName);
+
+        const query = {
+            text: `
+                INSERT INTO ${this.schema}.${sanitizedTableName} (${columns.join(', ')})
+                VALUES ${valueRows.join(', ')}
+                ${conflictClause}
+                ${returningClause}
+            `,
+            values
+        };
+
+        if (this.debug) {
+            console.log('DEBUG: Generated Insert Query:', query);
+        }
+
+        return query;
+    }
+
+    mapReturning(rows: Record<string, any>[]): Record<string, any>[] {
+        return this.responseMapper.mapResponses(rows);
+    }
+
+    private resolveInsertFields(rows: Record<string, any>[]): string[] {
+        const fields: string[] = [];
+
+        for (const row of rows) {
+            for (const field of Object.keys(row)) {
+                if (!this.fieldMappings.has(field)) {
+                    throw new InvalidFieldError(`Invalid write field: ${field}`, { field, usage: 'write' });
+                }
+                if (!fields.includes(field)) {
+                    fields.push(field);
+                }
+            }
+        }
+
+        for (const [field, mapping] of this.fieldMappings) {
+            if ((mapping.required || mapping.default !== undefined) && !fields.includes(field)) {
+                fields.push(field);
+            }
+        }
+
+        return fields;
+    }
+
+    private resolveValue(field: string, row: Record<string, any>): any {
+        const value = row[field];
+        if (value !== undefined) {
+            return value;
+        }
+
+        const defaultValue = this.fieldMappings.get(field)!.default;
+        return typeof defaultValue === 'function' ? defaultValue() : defaultValue;
+    }
+
+    private buildConflictClause(onConflict: OnConflictOptions, suppliedFields: string[]): string {
+        const { target, action, updateFields } = onConflict;
+
+        if (!target || target.length === 0) {
+            throw new InvalidQueryError('ON CONFLICT requires at least one target field');
+        }
+
+        const targetColumns = target.map(field => this.validator.validateWritableField(field));
+        const conflictTarget = `ON CONFLICT (${targetColumns.join(', ')})`;
+
+        if (action === 'nothing') {
+            return `${conflictTarget} DO NOTHING`;
+        }
+
+        const fieldsToUpdate = updateFields ?? suppliedFields.filter(field => !target.includes(field));
+        if (fieldsToUpdate.length === 0) {
+            return `${conflictTarget} DO NOTHING`;
+        }
+
+        const assignments = fieldsToUpdate.map(field => {
+            const column = this.validator.validateWritableField(field);
+            return `${column} = EXCLUDED.${column}`;
+        });
+
+        return `${conflictTarget} DO UPDATE SET ${assignments.join(', ')}`;
+    }
+}
@@ -0,0 +1,62 @@
+import { writeFileSync } from 'fs';
+import { Pool } from 'pg';
+import { SchemaIntrospector } from './schemaIntrospector';
+
+const USAGE = `Usage: introspect [--url <connection string>] [--schema public] [--tables users,orders] [--import <module>] [--out <file.ts>]
+
+Connects with --url, DATABASE_URL or the standard PG* environment variables and prints the
+generated field mappings, or writes them to --out.`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const match = argv[i].match(/^--([a-z]+)(?:=(.*))?$/);
+        if (!match) {
+            throw new Error(`Unexpected argument: ${argv[i]}`);
+        }
+        if (match[1] === 'help') {
+            args.help = 'true';
+            continue;
+        }
+        const value = match[2] ?? argv[++i];
+        if (value === undefined) {
+            throw new Error(`Missing value for --${match[1]}`);
+        }
+        args[match[1]] = value;
+    }
+    return args;
+}
+
+async function main(): Promise<void> {
+    const args = parseArgs(process.argv.slice(2));
+    if (args.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const pool = new Pool({ connectionString: args.url ?? process.env.DATABASE_URL });
+    try {
+        const tables = await SchemaIntrospector.fromClient(pool).introspect({
+            schema: args.schema,
+            tables: args.tables?.split(',').map(table => table.trim())
+        });
+        if (Object.keys(tables).length === 0) {
+            throw new Error(`No tables found in schema ${args.schema ?? 'public'}`);
+        }
+
+        const source = SchemaIntrospector.emitTypeScript(tables, { importPath: args.import });
+        if (args.out) {
+            writeFileSync(args.out, source);
+            console.log(`Wrote field mappings for ${Object.keys(tables).length} table(s) to ${args.out}`);
+        } else {
+            process.stdout.write(source);
+        }
+    } finally {
+        await pool.end();
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
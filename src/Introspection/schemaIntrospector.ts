@@ -0,0 +1,190 @@
+import { FieldMapping } from '../QueryBuilder/fieldMapping';
+import { Queryable } from '../QueryExecutor/queryExecutor';
+
+/**
+ * Runs a parameterized query and resolves to its rows. Keeps the introspector independent of
+ * the pg driver so it can run against a pool, a single client or a test fake.
+ */
+export type IntrospectionQuery = (text: string, values: any[]) => Promise<Record<string, any>[]>;
+
+export interface IntrospectionOptions {
+    schema?: string;
+    /** Only these tables; every table in the schema when omitted */
+    tables?: string[];
+}
+
+/** One row of the catalog query, normalized */
+export interface ColumnDefinition {
+    tableName: string;
+    columnName: string;
+    dataType: string;
+    udtName: string;
+    nullable: boolean;
+    hasDefault: boolean;
+    enumValues: string[] | null;
+}
+
+export type TableFieldMappings = Record<string, Record<string, FieldMapping>>;
+
+export interface EmitOptions {
+    /** Module the generated file imports defineFieldMappings from */
+    importPath?: string;
+}
+
+const COLUMNS_QUERY = `
+                SELECT c.table_name, c.column_name, c.data_type, c.udt_name, c.is_nullable,
+                       c.column_default IS NOT NULL OR c.is_identity = 'YES' OR c.is_generated = 'ALWAYS' AS has_default,
+                       e.enum_values
+                FROM information_schema.columns c
+                LEFT JOIN LATERAL (
+                    SELECT array_agg(en.enumlabel::text ORDER BY en.enumsortorder) AS enum_values
+                    FROM pg_catalog.pg_type t
+                    JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+                    JOIN pg_catalog.pg_enum en ON en.enumtypid = t.oid
+                    WHERE t.typname = c.udt_name AND n.nspname = c.udt_schema
+                ) e ON true
+                WHERE c.table_schema = $1 AND ($2::text[] IS NULL OR c.table_name = ANY($2::text[]))
+                ORDER BY c.table_name, c.ordinal_position
+            `;
+
+const TYPE_MAP: Record<string, FieldMapping['type']> = {
+    int2: 'smallint',
+    int4: 'number',
+    int8: 'bigint',
+    numeric: 'number',
+    float4: 'float',
+    float8: 'double',
+    money: 'money',
+    bool: 'boolean',
+    date: 'date',
+    timestamp: 'timestamp',
+    timestamptz: 'timestamp',
+    uuid: 'uuid',
+    json: 'json',
+    jsonb: 'jsonb',
+    bytea: 'bytea',
+    xml: 'xml',
+    inet: 'inet',
+    cidr: 'inet',
+    tsvector: 'tsvector',
+    interval: 'interval'
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Postgres folds unquoted identifiers to lower case, so anything else has to be quoted */
+const UNQUOTED_SQL_IDENTIFIER = /^[a-z_][a-z0-9_$]*$/;
+
+/**
+ * Generates field mappings from the Postgres catalog, so they do not have to be written and kept
+ * in sync by hand.
+ */
+export class SchemaIntrospector {
+    private query: IntrospectionQuery;
+
+    constructor(query: IntrospectionQuery) {
+        this.query = query;
+    }
+
+    static fromClient(client: Queryable): SchemaIntrospector {
+        return new SchemaIntrospector(async (text, values) => (await client.query({ text, values })).rows);
+    }
+
+    async listColumns(options: IntrospectionOptions = {}): Promise<ColumnDefinition[]> {
+        const { schema = 'public', tables } = options;
+        const rows = await this.query(COLUMNS_QUERY, [schema, tables && tables.length > 0 ? tables : null]);
+
+        return rows.map(row => ({
+            tableName: row.table_name,
+            columnName: row.column_name,
+            dataType: row.data_type,
+            udtName: row.udt_name,
+            nullable: row.is_nullable !== 'NO',
+            hasDefault: Boolean(row.has_default),
+            enumValues: row.enum_values ?? null
+        }));
+    }
+
+    /** Field mappings keyed by table name, then by camelCased column name */
+    async introspect(options: IntrospectionOptions = {}): Promise<TableFieldMappings> {
+        const tables: TableFieldMappings = {};
+        for (const column of await this.listColumns(options)) {
+            tables[column.tableName] ??= {};
+            tables[column.tableName][SchemaIntrospector.toCamelCase(column.columnName)] = SchemaIntrospector.toFieldMapping(column);
+        }
+        return tables;
+    }
+
+    /**
+     * Columns that are NOT NULL and have no default, identity or generated value are marked
+     * required, since an insert has to supply them.
+     */
+    static toFieldMapping(column: ColumnDefinition): FieldMapping {
+        const mapping: FieldMapping = {
+            dbField: `${this.quoteIdentifier(column.tableName)}.${this.quoteIdentifier(column.columnName)}`,
+            type: this.mapType(column.dataType, column.udtName)
+        };
+        if (column.enumValues && column.dataType !== 'ARRAY') {
+            mapping.enumValues = column.enumValues;
+        }
+        if (!column.nullable && !column.hasDefault) {
+            mapping.required = true;
+        }
+        return mapping;
+    }
+
+    /** Character, enum and any other unrecognized types map to `string` */
+    static mapType(dataType: string, udtName: string): FieldMapping['type'] {
+        if (dataType === 'ARRAY') {
+            return 'array';
+        }
+        return TYPE_MAP[udtName] ?? 'string';
+    }
+
+    static toCamelCase(name: string): string {
+        return name.replace(/_+([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase());
+    }
+
+    static quoteIdentifier(name: string): string {
+        return UNQUOTED_SQL_IDENTIFIER.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+    }
+
+    /**
+     * Renders the mappings as a TypeScript module with one `<table>FieldMappings` export per table,
+     * wrapped in defineFieldMappings so builders infer the literal field names and types
+     */
+    static emitTypeScript(tables: TableFieldMappings, options: EmitOptions = {}): string {
+        const { importPath = 'pg-query-builder/QueryBuilder' } = options;
+        const lines = [
+            '// Generated from the database schema. Changes will be overwritten.',
+            `import { defineFieldMappings } from '${importPath}';`
+        ];
+
+        for (const [table, mappings] of Object.entries(tables)) {
+            lines.push('', `export const ${this.toCamelCase(table)}FieldMappings = defineFieldMappings({`);
+            const entries = Object.entries(mappings).map(([key, mapping]) => `    ${this.emitKey(key)}: ${this.emitMapping(mapping)}`);
+            lines.push(entries.join(',\n'), '});');
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    private static emitMapping(mapping: FieldMapping): string {
+        const parts = Object.entries(mapping).map(([key, value]) => `${key}: ${this.emitValue(value)}`);
+        return `{ ${parts.join(', ')} }`;
+    }
+
+    private static emitValue(value: any): string {
+        if (Array.isArray(value)) {
+            return `[${value.map(item => this.emitValue(item)).join(', ')}]`;
+        }
+        if (typeof value === 'string') {
+            return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+        }
+        return String(value);
+    }
+
+    private static emitKey(key: string): string {
+        return IDENTIFIER.test(key) ? key : this.emitValue(key);
+    }
+}
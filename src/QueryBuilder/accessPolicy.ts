@@ -0,0 +1,162 @@
+import { FieldMapping } from './fieldMapping';
+import { AccessDeniedError } from './errors';
+
+export type FieldUsage = 'read' | 'filter' | 'sort';
+
+/**
+ * Attached to a FieldMapping as `access`. Each list names the roles allowed that use of the
+ * field; a missing list allows every role. A role that sees the field masked may only filter or
+ * sort on it when the `filter` or `sort` list names it, since comparisons would reveal the value.
+ */
+export interface FieldAccess {
+    read?: string[];
+    filter?: string[];
+    sort?: string[];
+    /** Roles that read the field, but only as MASKED_VALUE */
+    mask?: string[];
+}
+
+/**
+ * Passed per request. The field lists narrow what the mappings allow `role`; a missing list
+ * leaves the mapping rules alone.
+ */
+export interface AccessPolicy {
+    role: string;
+    read?: string[];
+    filter?: string[];
+    sort?: string[];
+    /** Fields returned as MASKED_VALUE; filtering or sorting on them needs them listed in `filter` or `sort` */
+    mask?: string[];
+    /** Fields left out of ResponseMapper output */
+    omit?: string[];
+}
+
+export const MASKED_VALUE = '***';
+
+const USAGE_VERBS: Record<FieldUsage, string> = {
+    read: 'read',
+    filter: 'filter on',
+    sort: 'sort by'
+};
+
+/**
+ * Answers what a policy allows for one set of field mappings. Dotted JSON paths follow the
+ * json/jsonb field they belong to. Fields that are not mapped are left for the caller to reject.
+ */
+export class FieldAccessPolicy {
+    private fieldMappings: Map<string, FieldMapping>;
+    private policy: AccessPolicy;
+
+    constructor(fieldMappings: Map<string, FieldMapping>, policy: AccessPolicy) {
+        if (!policy || typeof policy.role !== 'string' || policy.role === '') {
+            throw new Error('Access policy requires a role');
+        }
+        this.fieldMappings = fieldMappings;
+        this.policy = policy;
+    }
+
+    get role(): string {
+        return this.policy.role;
+    }
+
+    allows(field: string, usage: FieldUsage): boolean {
+        const key = this.mappedField(field);
+        if (!key) {
+            return true;
+        }
+        const roles = this.fieldMappings.get(key)!.access?.[usage];
+        if (roles && !roles.includes(this.policy.role)) {
+            return false;
+        }
+        if (usage !== 'read' && this.masks(field) && !roles?.includes(this.policy.role) && !this.listed(this.policy[usage], field, key, false)) {
+            return false;
+        }
+        return this.listed(this.policy[usage], field, key, true);
+    }
+
+    check(field: string, usage: FieldUsage): void {
+        if (!this.allows(field, usage)) {
+            throw new AccessDeniedError(`Access denied: role ${this.policy.role} cannot ${USAGE_VERBS[usage]} ${field}`, {
+                field,
+                usage,
+                role: this.policy.role
+            });
+        }
+    }
+
+    /**
+     * Checks each requested field, or lists the readable ones when none are requested, so the
+     * default selection only covers what the role may see.
+     */
+    readableFields(fields: string[]): string[] {
+        if (fields.length > 0) {
+            fields.forEach(field => this.check(field, 'read'));
+            return fields;
+        }
+        const readable = Array.from(this.fieldMappings.keys()).filter(field => this.allows(field, 'read'));
+        if (readable.length === 0) {
+            throw new AccessDeniedError(`Access denied: role ${this.policy.role} cannot read any field`, { usage: 'read', role: this.policy.role });
+        }
+        return readable;
+    }
+
+    /**
+     * Cursors carry the raw values of their keys, so a role may only page by fields it reads
+     * unmasked and that the response keeps.
+     */
+    checkCursorKey(field: string): void {
+        if (this.masks(field) || this.omits(field)) {
+            throw new AccessDeniedError(`Access denied: role ${this.policy.role} cannot page by ${field}`, {
+                field,
+                usage: 'sort',
+                reason: 'cursor',
+                role: this.policy.role
+            });
+        }
+    }
+
+    masks(field: string): boolean {
+        const key = this.mappedField(field);
+        if (!key) {
+            return false;
+        }
+        return !!this.fieldMappings.get(key)!.access?.mask?.includes(this.policy.role) || this.listed(this.policy.mask, field, key, false);
+    }
+
+    /** Fields selected without being readable, such as the id added to every select, are omitted too */
+    omits(field: string): boolean {
+        const key = this.mappedField(field);
+        return !!key && (this.listed(this.policy.omit, field, key, false) || !this.allows(field, 'read'));
+    }
+
+    /** Masks and omits fields of a row keyed by field name, before dotted names are nested */
+    apply(row: Record<string, any>): Record<string, any> {
+        const result: Record<string, any> = {};
+        for (const [field, value] of Object.entries(row)) {
+            if (this.omits(field)) {
+                continue;
+            }
+            result[field] = this.masks(field) && value !== null && value !== undefined ? MASKED_VALUE : value;
+        }
+        return result;
+    }
+
+    private listed(fields: string[] | undefined, field: string, key: string, fallback: boolean): boolean {
+        return fields ? fields.includes(field) || fields.includes(key) : fallback;
+    }
+
+    /** The mapping key a field or a JSON path below it belongs to */
+    private mappedField(field: string): string | undefined {
+        if (this.fieldMappings.has(field)) {
+            return field;
+        }
+        const segments = field.split('.');
+        for (let i = segments.length - 1; i > 0; i--) {
+            const key = segments.slice(0, i).join('.');
+            if (this.fieldMappings.has(key)) {
+                return key;
+            }
+        }
+        return undefined;
+    }
+}
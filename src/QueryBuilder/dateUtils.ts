@@ -1,43 +1,189 @@
+import { InvalidValueError } from './errors';
+
 export interface DateRange {
     start: string;
     end: string;
 }
 
+export type TimeBucketInterval = 'hour' | 'day' | 'week' | 'month';
+
+export const TIME_BUCKET_INTERVALS: TimeBucketInterval[] = ['hour', 'day', 'week', 'month'];
+
+export type RelativeDateRange =
+    | 'today' | 'yesterday'
+    | 'thisWeek' | 'lastWeek'
+    | 'thisMonth' | 'lastMonth'
+    | 'thisQuarter' | 'lastQuarter'
+    | 'thisYear' | 'lastYear'
+    | 'wtd' | 'mtd' | 'qtd' | 'ytd';
+
+export const RELATIVE_DATE_RANGES: RelativeDateRange[] = [
+    'today', 'yesterday', 'thisWeek', 'lastWeek', 'thisMonth', 'lastMonth',
+    'thisQuarter', 'lastQuarter', 'thisYear', 'lastYear', 'wtd', 'mtd', 'qtd', 'ytd'
+];
+
+export interface WallClock {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    /** ISO day of week, Monday = 1 through Sunday = 7 */
+    weekday: number;
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const ISO_WEEK = /^(\d{4})-W(\d{2})$/;
+const DURATION = /^(\d+)\s*(h|d|w|m|y)$/;
+
 export class DateFilterUtils {
+    private static readonly MAX_CACHE_SIZE = 500;
     private static dateRangeCache: Map<string, DateRange> = new Map();
+    private static formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+    /**
+     * Ranges are half-open: `start` is inclusive and `end` is the first instant of the next
+     * period, so filters should compare with `>= start AND < end`.
+     */
+    static getMonthRange(year: number, month: number, timeZone: string = 'UTC'): DateRange {
+        return this.cached(`month:${year}-${month}:${timeZone}`, () =>
+            this.zonedRange(year, month, 1, year, month + 1, 1, timeZone)
+        );
+    }
 
-    static getMonthRange(year: number, month: number): DateRange {
-        const cacheKey = `month:${year}-${month}`;
-        if (this.dateRangeCache.has(cacheKey)) {
-            return this.dateRangeCache.get(cacheKey)!;
+    static getYearRange(year: number, timeZone: string = 'UTC'): DateRange {
+        return this.cached(`year:${year}:${timeZone}`, () =>
+            this.zonedRange(year, 1, 1, year + 1, 1, 1, timeZone)
+        );
+    }
+
+    static getQuarterRange(year: number, quarter: number, timeZone: string = 'UTC'): DateRange {
+        if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+            throw new InvalidValueError(`Invalid quarter: ${quarter}`, { value: quarter, allowed: [1, 2, 3, 4] });
         }
+        const month = (quarter - 1) * 3 + 1;
+        return this.cached(`quarter:${year}-${quarter}:${timeZone}`, () =>
+            this.zonedRange(year, month, 1, year, month + 3, 1, timeZone)
+        );
+    }
 
-        const startDate = new Date(year, month - 1, 1);
-        const endDate = new Date(year, month, 0, 23, 59, 59, 999);
-        const range: DateRange = {
-            start: startDate.toISOString(),
-            end: endDate.toISOString()
-        };
+    static getDayRange(year: number, month: number, day: number, timeZone: string = 'UTC'): DateRange {
+        return this.zonedRange(year, month, day, year, month, day + 1, timeZone);
+    }
 
-        this.dateRangeCache.set(cacheKey, range);
-        return range;
+    /**
+     * Range for an ISO 8601 week such as `2026-W42`. Weeks start on Monday and week 1 is the
+     * week containing January 4th.
+     */
+    static getIsoWeekRange(value: string, timeZone: string = 'UTC'): DateRange {
+        const match = typeof value === 'string' ? value.match(ISO_WEEK) : null;
+        if (!match) {
+            throw new InvalidValueError(`Invalid ISO week: ${value}. Use "YYYY-Www"`, { value });
+        }
+        const year = parseInt(match[1]);
+        const week = parseInt(match[2]);
+
+        const jan4 = new Date(Date.UTC(year, 0, 4)).getUTCDay() || 7;
+        const monday = 4 - (jan4 - 1) + (week - 1) * 7;
+        // The Thursday of an ISO week always falls in the ISO year, which rules out week 53 in 52-week years
+        if (week < 1 || new Date(Date.UTC(year, 0, monday + 3)).getUTCFullYear() !== year) {
+            throw new InvalidValueError(`Invalid ISO week: ${value}`, { value });
+        }
+
+        return this.cached(`week:${value}:${timeZone}`, () =>
+            this.zonedRange(year, 1, monday, year, 1, monday + 7, timeZone)
+        );
     }
 
-    static getYearRange(year: number): DateRange {
-        const cacheKey = `year:${year}`;
-        if (this.dateRangeCache.has(cacheKey)) {
-            return this.dateRangeCache.get(cacheKey)!;
+    /**
+     * Trailing range ending now, e.g. `7d`. Hours, days and weeks are exact durations; months
+     * and years step back on the calendar in the given zone.
+     */
+    static getLastRange(value: string, timeZone: string = 'UTC', now: Date = new Date()): DateRange {
+        const match = typeof value === 'string' ? value.trim().match(DURATION) : null;
+        if (!match || parseInt(match[1]) < 1) {
+            throw new InvalidValueError(`Invalid relative duration: ${value}. Use a count and unit such as "7d" (h, d, w, m, y)`, { value });
         }
+        const amount = parseInt(match[1]);
+        const unit = match[2];
 
-        const startDate = new Date(year, 0, 1);
-        const endDate = new Date(year, 11, 31, 23, 59, 59, 999);
-        const range: DateRange = {
-            start: startDate.toISOString(),
-            end: endDate.toISOString()
+        let start: Date;
+        if (unit === 'm' || unit === 'y') {
+            const clock = this.wallClock(now, timeZone);
+            const months = unit === 'm' ? amount : amount * 12;
+            start = this.zonedTime(clock.year, clock.month - months, clock.day, clock.hour, clock.minute, clock.second, timeZone);
+        } else {
+            const hours = { h: 1, d: 24, w: 24 * 7 }[unit]!;
+            start = new Date(now.getTime() - amount * hours * 3600 * 1000);
+        }
+
+        return { start: start.toISOString(), end: now.toISOString() };
+    }
+
+    static getRelativeRange(name: RelativeDateRange, timeZone: string = 'UTC', now: Date = new Date()): DateRange {
+        if (!RELATIVE_DATE_RANGES.includes(name)) {
+            throw new InvalidValueError(`Invalid relative date range: ${name}`, { value: name, allowed: RELATIVE_DATE_RANGES });
+        }
+        const { year, month, day, weekday } = this.wallClock(now, timeZone);
+        const monday = day - (weekday - 1);
+        const quarterMonth = Math.floor((month - 1) / 3) * 3 + 1;
+        const toNow = (start: DateRange) => ({ start: start.start, end: now.toISOString() });
+
+        switch (name) {
+            case 'today': return this.getDayRange(year, month, day, timeZone);
+            case 'yesterday': return this.getDayRange(year, month, day - 1, timeZone);
+            case 'thisWeek': return this.zonedRange(year, month, monday, year, month, monday + 7, timeZone);
+            case 'lastWeek': return this.zonedRange(year, month, monday - 7, year, month, monday, timeZone);
+            case 'thisMonth': return this.zonedRange(year, month, 1, year, month + 1, 1, timeZone);
+            case 'lastMonth': return this.zonedRange(year, month - 1, 1, year, month, 1, timeZone);
+            case 'thisQuarter': return this.zonedRange(year, quarterMonth, 1, year, quarterMonth + 3, 1, timeZone);
+            case 'lastQuarter': return this.zonedRange(year, quarterMonth - 3, 1, year, quarterMonth, 1, timeZone);
+            case 'thisYear': return this.getYearRange(year, timeZone);
+            case 'lastYear': return this.getYearRange(year - 1, timeZone);
+            case 'wtd': return toNow(this.getDayRange(year, month, monday, timeZone));
+            case 'mtd': return toNow(this.getDayRange(year, month, 1, timeZone));
+            case 'qtd': return toNow(this.getDayRange(year, quarterMonth, 1, timeZone));
+            case 'ytd': return toNow(this.getDayRange(year, 1, 1, timeZone));
+        }
+    }
+
+    /**
+     * Like parseDateRange, but date-only bounds (`YYYY-MM-DD`) are resolved to midnight in the
+     * given zone, with the end moved to the following midnight so the whole end day is included.
+     */
+    static getDateRange(value: string | { start: string, end: string }, timeZone: string = 'UTC'): DateRange {
+        const range = this.parseDateRange(value);
+        const start = this.parseDateOnly(range.start);
+        const end = this.parseDateOnly(range.end);
+        return {
+            start: start ? this.getDayRange(start[0], start[1], start[2], timeZone).start : range.start,
+            end: end ? this.getDayRange(end[0], end[1], end[2], timeZone).end : range.end
         };
+    }
 
-        this.dateRangeCache.set(cacheKey, range);
-        return range;
+    /** Returns `[year, month, day]` for a `YYYY-MM-DD` string, or undefined for anything else. */
+    static parseDateOnly(value: unknown): [number, number, number] | undefined {
+        const match = typeof value === 'string' ? value.match(DATE_ONLY) : null;
+        return match ? [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])] : undefined;
+    }
+
+    /**
+     * Converts an instant range to calendar dates in the zone, for comparison against `date`
+     * columns. An end that is not at midnight is rounded up so its day stays included.
+     */
+    static toDateOnlyRange(range: DateRange, timeZone: string = 'UTC'): DateRange {
+        const toDate = (value: string, roundUp: boolean): string => {
+            if (this.parseDateOnly(value)) {
+                return value;
+            }
+            const clock = this.wallClock(this.parseInstant(value), timeZone);
+            const pastMidnight = clock.hour > 0 || clock.minute > 0 || clock.second > 0;
+            const day = new Date(Date.UTC(clock.year, clock.month - 1, clock.day + (roundUp && pastMidnight ? 1 : 0)));
+            return day.toISOString().slice(0, 10);
+        };
+        return { start: toDate(range.start, false), end: toDate(range.end, true) };
     }
 
     static parseDateRange(value: string | { start: string, end: string }): DateRange {
@@ -50,6 +196,151 @@ export class DateFilterUtils {
         if (typeof value === 'object' && 'start' in value && 'end' in value) {
             return value;
         }
-        throw new Error('Invalid date range format. Use "start,end" or {start, end}');
+        throw new InvalidValueError('Invalid date range format. Use "start,end" or {start, end}', { value });
+    }
+
+    static isValidTimeZone(timeZone: string): boolean {
+        if (typeof timeZone !== 'string' || !/^[A-Za-z0-9_+\-/]+$/.test(timeZone)) {
+            return false;
+        }
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone });
+            return true;
+        } catch {
+            return false;
+        }
     }
-} 
\ No newline at end of file
+
+    static validateTimeZone(timeZone: string): string {
+        if (!this.isValidTimeZone(timeZone)) {
+            throw new InvalidValueError(`Invalid time zone: ${timeZone}`, { value: timeZone, reason: 'time zone' });
+        }
+        return timeZone;
+    }
+
+    /**
+     * Converts a date/timestamp expression to wall-clock time in the given zone. The zone is
+     * validated and inlined so the same expression can be repeated in SELECT and GROUP BY.
+     */
+    static localTimestamp(expression: string, fieldType: string, timeZone: string = 'UTC'): string {
+        if (fieldType === 'date') {
+            return `${expression}::timestamp`;
+        }
+        return `${expression}::timestamptz AT TIME ZONE '${this.validateTimeZone(timeZone)}'`;
+    }
+
+    static truncateExpression(expression: string, fieldType: string, interval: TimeBucketInterval, timeZone: string = 'UTC'): string {
+        if (!TIME_BUCKET_INTERVALS.includes(interval)) {
+            throw new InvalidValueError(`Invalid time bucket interval: ${interval}`, { value: interval, allowed: TIME_BUCKET_INTERVALS });
+        }
+        return `date_trunc('${interval}', ${this.localTimestamp(expression, fieldType, timeZone)})`;
+    }
+
+    static parseInstant(value: string): Date {
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+            throw new InvalidValueError(`Invalid date: ${value}`, { value });
+        }
+        return date;
+    }
+
+    /**
+     * ISO instant for a range bound. Date-only and zone-less date-time strings are wall-clock
+     * times in the given zone; Dates and strings with an offset already name an instant.
+     */
+    static toInstant(value: string | Date, timeZone: string = 'UTC'): string {
+        if (value instanceof Date) {
+            if (Number.isNaN(value.getTime())) {
+                throw new InvalidValueError(`Invalid date: ${value}`, { value });
+            }
+            return value.toISOString();
+        }
+        const local = typeof value === 'string' ? value.match(LOCAL_DATE_TIME) : null;
+        if (local) {
+            const [year, month, day, hour, minute, second] = local.slice(1).map(part => parseInt(part ?? '0'));
+            return this.zonedTime(year, month, day, hour, minute, second, timeZone).toISOString();
+        }
+        return this.parseInstant(value).toISOString();
+    }
+
+    /** Wall-clock reading of an instant in the given zone. */
+    static wallClock(date: Date, timeZone: string = 'UTC'): WallClock {
+        const parts: Record<string, number> = {};
+        for (const part of this.formatter(timeZone).formatToParts(date)) {
+            if (part.type !== 'literal') {
+                parts[part.type] = parseInt(part.value);
+            }
+        }
+        const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay() || 7;
+        return {
+            year: parts.year,
+            month: parts.month,
+            day: parts.day,
+            hour: parts.hour % 24,
+            minute: parts.minute,
+            second: parts.second,
+            weekday
+        };
+    }
+
+    /**
+     * Instant at which the given wall-clock time occurs in the zone. Out-of-range components
+     * roll over as with Date.UTC, so `month + 1` or `day - 1` are safe.
+     */
+    static zonedTime(
+        year: number, month: number, day: number,
+        hour: number = 0, minute: number = 0, second: number = 0,
+        timeZone: string = 'UTC'
+    ): Date {
+        const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+        const offset = this.offsetAt(wall, timeZone);
+        // Re-check the offset at the corrected instant in case a DST transition lies in between
+        const corrected = this.offsetAt(wall - offset, timeZone);
+        return new Date(wall - corrected);
+    }
+
+    private static offsetAt(timestamp: number, timeZone: string): number {
+        const clock = this.wallClock(new Date(timestamp), timeZone);
+        const wall = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+        return wall - Math.floor(timestamp / 1000) * 1000;
+    }
+
+    private static zonedRange(
+        startYear: number, startMonth: number, startDay: number,
+        endYear: number, endMonth: number, endDay: number,
+        timeZone: string
+    ): DateRange {
+        return {
+            start: this.zonedTime(startYear, startMonth, startDay, 0, 0, 0, timeZone).toISOString(),
+            end: this.zonedTime(endYear, endMonth, endDay, 0, 0, 0, timeZone).toISOString()
+        };
+    }
+
+    private static formatter(timeZone: string): Intl.DateTimeFormat {
+        let formatter = this.formatters.get(timeZone);
+        if (!formatter) {
+            formatter = new Intl.DateTimeFormat('en-US', {
+                timeZone: this.validateTimeZone(timeZone),
+                hourCycle: 'h23',
+                year: 'numeric', month: 'numeric', day: 'numeric',
+                hour: 'numeric', minute: 'numeric', second: 'numeric'
+            });
+            this.formatters.set(timeZone, formatter);
+        }
+        return formatter;
+    }
+
+    private static cached(key: string, build: () => DateRange): DateRange {
+        const hit = this.dateRangeCache.get(key);
+        if (hit) {
+            return hit;
+        }
+        const range = build();
+        if (this.dateRangeCache.size >= this.MAX_CACHE_SIZE) {
+            // Maps iterate in insertion order, so the first key is the oldest entry
+            this.dateRangeCache.delete(this.dateRangeCache.keys().next().value!);
+        }
+        this.dateRangeCache.set(key, range);
+        return range;
+    }
+}
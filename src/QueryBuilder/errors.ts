@@ -0,0 +1,160 @@
+/**
+ * Machine-readable context attached to a QueryBuilderError. Only the keys relevant to the
+ * failure are set.
+ */
+export interface QueryErrorDetails {
+    field?: string;
+    operator?: string;
+    value?: any;
+    allowed?: any[];
+    limit?: number;
+    usage?: string;
+    reason?: string;
+    role?: string;
+}
+
+/**
+ * Base class for errors caused by the query a caller asked for, as opposed to bugs. `code` is
+ * stable across releases and safe to branch on; messages may change.
+ */
+export class QueryBuilderError extends Error {
+    readonly code: string;
+    readonly details: QueryErrorDetails;
+
+    constructor(code: string, message: string, details: QueryErrorDetails = {}) {
+        super(message);
+        this.name = 'QueryBuilderError';
+        this.code = code;
+        this.details = details;
+    }
+
+    toJSON(): { code: string, message: string, details: QueryErrorDetails } {
+        return { code: this.code, message: this.message, details: this.details };
+    }
+}
+
+/** A field that is not mapped, or cannot be used where it was requested. */
+export class InvalidFieldError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('INVALID_FIELD', message, details);
+        this.name = 'InvalidFieldError';
+    }
+}
+
+export class InvalidSortFieldError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('INVALID_SORT_FIELD', message, details);
+        this.name = 'InvalidSortFieldError';
+    }
+}
+
+export class UnsupportedOperatorError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('UNSUPPORTED_OPERATOR', message, details);
+        this.name = 'UnsupportedOperatorError';
+    }
+}
+
+/** A filter or write value that does not fit its field or operator. */
+export class InvalidValueError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('INVALID_VALUE', message, details);
+        this.name = 'InvalidValueError';
+    }
+}
+
+export class FilterLimitExceededError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('FILTER_LIMIT_EXCEEDED', message, details);
+        this.name = 'FilterLimitExceededError';
+    }
+}
+
+/** A filter tree that is not made of leaves and and/or/not groups. */
+export class InvalidFilterError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('INVALID_FILTER', message, details);
+        this.name = 'InvalidFilterError';
+    }
+}
+
+export class InvalidCursorError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('INVALID_CURSOR', message, details);
+        this.name = 'InvalidCursorError';
+    }
+}
+
+/** A field the caller's role may not read, filter or sort on; see FieldAccessPolicy. */
+export class AccessDeniedError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('ACCESS_DENIED', message, details);
+        this.name = 'AccessDeniedError';
+    }
+}
+
+/** Query options that cannot be combined or are otherwise malformed. */
+export class InvalidQueryError extends QueryBuilderError {
+    constructor(message: string, details: QueryErrorDetails = {}) {
+        super('INVALID_QUERY', message, details);
+        this.name = 'InvalidQueryError';
+    }
+}
+
+/** Every problem found while building a query in collect-all mode. */
+export class QueryValidationError extends QueryBuilderError {
+    readonly errors: QueryBuilderError[];
+
+    constructor(errors: QueryBuilderError[]) {
+        super('QUERY_VALIDATION_FAILED', `Query validation failed: ${errors.map(error => error.message).join('; ')}`);
+        this.name = 'QueryValidationError';
+        this.errors = errors;
+    }
+
+    toJSON(): { code: string, message: string, details: QueryErrorDetails, errors: ReturnType<QueryBuilderError['toJSON']>[] } {
+        return { ...super.toJSON(), errors: this.errors.map(error => error.toJSON()) };
+    }
+}
+
+/**
+ * Runs validation steps either fail-fast or collecting every QueryBuilderError. Other errors
+ * always propagate, since they indicate a bug rather than a bad request.
+ */
+export class ErrorCollector {
+    readonly enabled: boolean;
+    private errors: QueryBuilderError[];
+
+    constructor(enabled: boolean = false) {
+        this.enabled = enabled;
+        this.errors = [];
+    }
+
+    attempt<T>(step: () => T, fallback: T): T {
+        if (!this.enabled) {
+            return step();
+        }
+        try {
+            return step();
+        } catch (error) {
+            if (!(error instanceof QueryBuilderError)) {
+                throw error;
+            }
+            this.report(error);
+            return fallback;
+        }
+    }
+
+    /** Throws the error straight away unless errors are being collected. */
+    report(error: QueryBuilderError): void {
+        if (!this.enabled) {
+            throw error;
+        }
+        this.errors.push(...(error instanceof QueryValidationError ? error.errors : [error]));
+    }
+
+    throwIfErrors(): void {
+        if (this.errors.length > 0) {
+            throw new QueryValidationError(this.errors);
+        }
+    }
+}
@@ -1,3 +1,8 @@
+import { SqlIdentifier } from './sqlIdentifier';
+import { JsonPath } from './jsonPath';
+import { InvalidFieldError, InvalidSortFieldError, InvalidValueError } from './errors';
+import { FieldAccess } from './accessPolicy';
+
 export interface FieldMapping {
     dbField: string;
     type:
@@ -25,6 +30,36 @@ export interface FieldMapping {
     default?: any;
     validate?: (value: any) => boolean;
     enumValues?: any[];
+    softDelete?: boolean;
+    ftsConfig?: string;
+    jsonPath?: string[];
+    /** Roles allowed to read, filter and sort on the field, and roles that read it masked */
+    access?: FieldAccess;
+}
+
+/**
+ * Column aliases in select lists. Aliases are the quoted field names, so case and dots survive
+ * and ResponseMapper can look each field up directly.
+ */
+export class SelectAlias {
+    static select(expression: string, field: string): string {
+        return expression === '*' ? expression : `${expression} AS ${this.quote(field)}`;
+    }
+
+    static quote(field: string): string {
+        return `"${field.replace(/"/g, '')}"`;
+    }
+
+    /** Drops the alias a computed dbField such as `CASE ... END AS status` carries */
+    static strip(dbField: string): string {
+        return dbField.replace(/\s+AS\s+"?\w+"?\s*$/i, '');
+    }
+}
+
+export interface SortSpec {
+    field: string;
+    direction?: 'ASC' | 'DESC';
+    nulls?: 'FIRST' | 'LAST';
 }
 
 export class FieldValidator {
@@ -34,39 +69,158 @@ export class FieldValidator {
         this.fieldMappings = fieldMappings;
     }
 
+    /**
+     * Select list for the requested fields, each aliased to its field name so ResponseMapper can
+     * read it back even when joined tables share column names.
+     */
     validateFields(fields: string[]): string[] {
-        if (!fields || fields.length === 0) {
-            return Array.from(this.fieldMappings.values()).map(f => f.dbField);
-        }
+        return this.resolveFields(fields).map(({ field, expression }) => SelectAlias.select(expression, field));
+    }
 
-        const dbFields = fields
-            .map(field => this.fieldMappings.get(field)?.dbField)
-            .filter((dbField): dbField is string => Boolean(dbField));
+    /**
+     * Resolves requested fields to their unaliased expressions, once each. Unknown fields are
+     * dropped, and id is added when mapped so every row can be identified.
+     */
+    resolveFields(fields: string[]): { field: string, expression: string }[] {
+        const requested = !fields || fields.length === 0 ? Array.from(this.fieldMappings.keys()) : fields;
+        const resolved = new Map<string, string>();
+        for (const field of requested) {
+            const mapping = JsonPath.resolve(this.fieldMappings, field);
+            if (mapping && !resolved.has(field)) {
+                resolved.set(field, this.selectExpression(mapping));
+            }
+        }
 
-        if (dbFields.length === 0) {
-            throw new Error("No valid fields specified for selection");
+        if (resolved.size === 0) {
+            throw new InvalidFieldError("No valid fields specified for selection", { usage: 'select' });
         }
 
-        const idField = this.fieldMappings.get('id')?.dbField;
-        if (idField && !dbFields.includes(idField) && !dbFields.includes('*')) {
-            dbFields.push(idField);
+        const idMapping = this.fieldMappings.get('id');
+        if (idMapping && !resolved.has('id') && !Array.from(resolved.values()).includes('*')) {
+            resolved.set('id', this.selectExpression(idMapping));
         }
 
-        return dbFields;
+        return Array.from(resolved, ([field, expression]) => ({ field, expression }));
     }
 
     validateSortField(sortField: string | null): string | null {
         if (!sortField) return null;
 
-        const mapping = this.fieldMappings.get(sortField);
+        const mapping = JsonPath.resolve(this.fieldMappings, sortField);
         if (!mapping) {
-            throw new Error(`Invalid sort field: ${sortField}`);
+            throw new InvalidSortFieldError(`Invalid sort field: ${sortField}`, { field: sortField });
         }
 
         if (mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT')) {
-            throw new Error(`Cannot sort by computed field: ${sortField}`);
+            throw new InvalidSortFieldError(`Cannot sort by computed field: ${sortField}`, { field: sortField, reason: 'computed' });
+        }
+
+        return JsonPath.isJsonPath(mapping) ? JsonPath.select(mapping) : mapping.dbField;
+    }
+
+    private selectExpression(mapping: FieldMapping): string {
+        return JsonPath.isJsonPath(mapping) ? JsonPath.select(mapping) : SelectAlias.strip(mapping.dbField);
+    }
+
+    validateSortDirection(direction: string): 'ASC' | 'DESC' {
+        const normalized = String(direction).toUpperCase();
+        if (normalized !== 'ASC' && normalized !== 'DESC') {
+            throw new InvalidValueError(`Invalid sort direction: ${direction}`, { value: direction, allowed: ['ASC', 'DESC'] });
+        }
+        return normalized;
+    }
+
+    validateSortSpec(sort: SortSpec[]): string[] {
+        const terms = sort.map(({ field, direction = 'ASC', nulls }) =>
+            this.formatSortTerm(this.validateSortField(field)!, direction, nulls)
+        );
+
+        const idField = this.fieldMappings.get('id')?.dbField;
+        if (idField && !sort.some(({ field }) => field === 'id')) {
+            terms.push(`${idField} ASC`);
+        }
+
+        return terms;
+    }
+
+    formatSortTerm(expression: string, direction: string, nulls?: string): string {
+        const sortDirection = this.validateSortDirection(direction);
+        if (!nulls) {
+            return `${expression} ${sortDirection}`;
+        }
+
+        const nullsOrder = String(nulls).toUpperCase();
+        if (nullsOrder !== 'FIRST' && nullsOrder !== 'LAST') {
+            throw new InvalidValueError(`Invalid nulls ordering: ${nulls}`, { value: nulls, allowed: ['FIRST', 'LAST'] });
         }
+        return `${expression} ${sortDirection} NULLS ${nullsOrder}`;
+    }
+
+    /**
+     * Resolves a field to a plain SQL expression for use inside GROUP BY, an aggregate call or a window
+     */
+    validateExpressionField(field: string, usage: 'aggregate' | 'group by' | 'window'): string {
+        const mapping = JsonPath.resolve(this.fieldMappings, field);
+        if (!mapping) {
+            throw new InvalidFieldError(`Invalid ${usage} field: ${field}`, { field, usage });
+        }
+
+        if (mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT') || /\sAS\s/i.test(mapping.dbField)) {
+            throw new InvalidFieldError(`Cannot use computed field in ${usage}: ${field}`, { field, usage, reason: 'computed' });
+        }
+
+        return JsonPath.isJsonPath(mapping) ? JsonPath.select(mapping) : mapping.dbField;
+    }
 
-        return mapping.dbField;
+    validateReturningFields(returning: string[] | string): string[] {
+        const requestedFields = typeof returning === 'string'
+            ? returning.split(',').map(f => f.trim()).filter(Boolean)
+            : returning;
+
+        if (requestedFields.length === 0) {
+            return [];
+        }
+
+        return this.validateFields(requestedFields.includes('*') ? [] : requestedFields);
     }
-} 
\ No newline at end of file
+
+    validateWritableField(field: string): string {
+        const mapping = this.fieldMappings.get(field);
+        if (!mapping) {
+            throw new InvalidFieldError(`Invalid write field: ${field}`, { field, usage: 'write' });
+        }
+
+        if (mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT') || /\sAS\s/i.test(mapping.dbField) || JsonPath.isJsonPath(mapping)) {
+            throw new InvalidFieldError(`Cannot write to computed field: ${field}`, { field, usage: 'write', reason: 'computed' });
+        }
+
+        const column = mapping.dbField.split('.').pop()!;
+        if (!SqlIdentifier.isValid(column)) {
+            throw new InvalidFieldError(`Cannot write to non-column field: ${field}`, { field, usage: 'write', reason: 'not a column' });
+        }
+
+        return column;
+    }
+
+    validateValue(field: string, value: any): void {
+        const mapping = this.fieldMappings.get(field);
+        if (!mapping) {
+            throw new InvalidFieldError(`Invalid field: ${field}`, { field });
+        }
+
+        if (value === undefined || value === null) {
+            if (mapping.required) {
+                throw new InvalidValueError(`Field is required: ${field}`, { field, value, reason: 'required' });
+            }
+            return;
+        }
+
+        if (mapping.enumValues && !mapping.enumValues.includes(value)) {
+            throw new InvalidValueError(`Invalid value for ${field}: expected one of ${mapping.enumValues.join(', ')}`, { field, value, allowed: mapping.enumValues });
+        }
+
+        if (mapping.validate && !mapping.validate(value)) {
+            throw new InvalidValueError(`Validation failed for field: ${field}`, { field, value, reason: 'validate' });
+        }
+    }
+}
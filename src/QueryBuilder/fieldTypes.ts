@@ -0,0 +1,134 @@
+import { FieldMapping, SortSpec } from './fieldMapping';
+
+/**
+ * Compile-time view of a field mapping object. Builders created from a mapping whose keys and
+ * `type` values are known (see defineFieldMappings) check field names, `field_operator` keys and
+ * operators against it; a plain `Record<string, FieldMapping>` accepts any string as before.
+ */
+export type FieldMappings = Record<string, FieldMapping>;
+
+export type FieldType = FieldMapping['type'];
+
+/**
+ * Returns the mappings unchanged, but keeps their literal keys and `type` values in the inferred
+ * type. Same effect as `satisfies Record<string, FieldMapping>`.
+ */
+export function defineFieldMappings<M extends FieldMappings>(mappings: M): M {
+    return mappings;
+}
+
+/** Value ResponseMapper returns for each field type; bigint is a BigInt with `{ bigint: 'bigint' }` */
+export interface FieldTypeValues {
+    string: string;
+    text: string;
+    number: number;
+    smallint: number;
+    bigint: string | bigint;
+    float: number;
+    double: number;
+    money: string;
+    boolean: boolean;
+    date: Date;
+    timestamp: Date;
+    uuid: string;
+    json: unknown;
+    jsonb: unknown;
+    array: unknown[];
+    bytea: Buffer;
+    xml: string;
+    inet: string;
+    tsvector: string;
+    interval: string;
+}
+
+type EqualityOperator = 'eq' | 'ne' | 'in' | 'notIn' | 'any' | 'all' | 'is' | 'not' | 'isNull' | 'isNotNull' | 'distinctFrom' | 'notDistinctFrom' | 'col';
+type OrderingOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'notBetween';
+type TextOperator = 'like' | 'startsWith' | 'endsWith' | 'contains' | 'notContains' | 'regexp' | 'notRegexp' | 'iRegexp' | 'notIRegexp' | 'ciEq' | 'ciNe';
+type SearchOperator = 'fts' | 'ftsPlain' | 'ftsPhrase' | 'ftsWeb';
+type DateOperator = 'dateRange' | 'monthYear' | 'year' | 'isoWeek' | 'last' | 'relative' | 'before' | 'after' | 'dayOfWeek';
+type JsonOperator = 'jsonContains' | 'jsonContained' | 'jsonKeyExists' | 'jsonAnyKeyExists' | 'jsonAllKeysExist' | 'jsonPath' | 'jsonPathText' | 'jsonEq' | 'jsonPathExists';
+type ArrayOperator = 'overlap' | 'contained' | 'containsArray';
+
+/** Built-in operators that make sense for each field type */
+export interface FieldTypeOperators {
+    string: EqualityOperator | OrderingOperator | TextOperator | SearchOperator;
+    text: EqualityOperator | OrderingOperator | TextOperator | SearchOperator;
+    number: EqualityOperator | OrderingOperator;
+    smallint: EqualityOperator | OrderingOperator;
+    bigint: EqualityOperator | OrderingOperator;
+    float: EqualityOperator | OrderingOperator;
+    double: EqualityOperator | OrderingOperator;
+    money: EqualityOperator | OrderingOperator;
+    boolean: EqualityOperator | 'isTrue' | 'isFalse';
+    date: EqualityOperator | OrderingOperator | DateOperator;
+    timestamp: EqualityOperator | OrderingOperator | DateOperator;
+    uuid: EqualityOperator;
+    json: EqualityOperator | JsonOperator;
+    jsonb: EqualityOperator | JsonOperator;
+    array: EqualityOperator | ArrayOperator;
+    bytea: EqualityOperator;
+    xml: EqualityOperator;
+    inet: EqualityOperator | OrderingOperator;
+    tsvector: 'isNull' | 'isNotNull' | SearchOperator;
+    interval: EqualityOperator | OrderingOperator;
+}
+
+type IsLoose<M> = string extends keyof M ? true : false;
+
+/** Mapped field names, plus dotted paths below json/jsonb fields such as `settings.theme` */
+export type FieldName<M extends FieldMappings> = {
+    [K in keyof M & string]: M[K]['type'] extends 'json' | 'jsonb' ? K | `${K}.${string}` : K
+}[keyof M & string];
+
+/** Dotted JSON paths are extracted as text */
+type FieldTypeOf<M extends FieldMappings, F extends string> = F extends keyof M ? M[F]['type'] : 'string';
+
+/** Operators accepted for a field: the built-ins for its type and any registered on the builder */
+export type FieldOperator<M extends FieldMappings, F extends string, O extends string = never> =
+    IsLoose<M> extends true ? string : FieldTypeOperators[FieldTypeOf<M, F>] | O;
+
+/** A query param key: a field name, or `field_operator` */
+export type FilterParamKey<M extends FieldMappings, O extends string = never> = {
+    [F in FieldName<M>]: F | `${F}_${FieldOperator<M, F, O>}`
+}[FieldName<M>];
+
+export type FilterParams<M extends FieldMappings, O extends string = never> = { [K in FilterParamKey<M, O>]?: any };
+
+export type TypedFilterLeaf<M extends FieldMappings, O extends string = never> = {
+    [F in FieldName<M>]: { field: F, op: FieldOperator<M, F, O>, value?: any }
+}[FieldName<M>];
+
+export interface TypedFilterGroup<M extends FieldMappings, O extends string = never> {
+    and?: TypedFilterNode<M, O>[];
+    or?: TypedFilterNode<M, O>[];
+    not?: TypedFilterNode<M, O>;
+}
+
+export type TypedFilterNode<M extends FieldMappings, O extends string = never> = TypedFilterLeaf<M, O> | TypedFilterGroup<M, O>;
+
+export type TypedSortSpec<M extends FieldMappings> = Omit<SortSpec, 'field'> & { field: FieldName<M> };
+
+type FieldValue<F extends FieldMapping> = F extends { required: true }
+    ? FieldTypeValues[F['type']]
+    : FieldTypeValues[F['type']] | null;
+
+type NestedHead<K extends string> = K extends `${infer H}.${string}` ? H : never;
+
+type NestedMappings<M extends FieldMappings, H extends string> = {
+    [K in keyof M & string as K extends `${H}.${infer T}` ? T : never]: M[K]
+};
+
+type NestedRow<M extends FieldMappings> = {
+    [K in keyof M & string as K extends `${string}.${string}` ? never : K]?: FieldValue<M[K]>
+} & {
+    [H in NestedHead<keyof M & string>]?: NestedRow<NestedMappings<M, H>>
+};
+
+/**
+ * Row shape ResponseMapper produces for a mapping. Fields are optional because only the selected
+ * ones are returned, and columns not marked `required` may be null. Dotted fields such as joined
+ * `profiles.bio` are nested, and computed columns such as window aliases are reachable as `unknown`.
+ */
+export type FieldRow<M extends FieldMappings> = IsLoose<M> extends true
+    ? Record<string, any>
+    : NestedRow<M> & Record<string, unknown>;
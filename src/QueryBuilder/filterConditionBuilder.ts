@@ -1,11 +1,29 @@
 import { FieldMapping } from './fieldMapping';
-import { FilterOperations, FilterOperation } from './filterOperations';
+import { FilterOperations, FilterOperation, FilterRenderContext } from './filterOperations';
 import { DateFilterUtils } from './dateUtils';
+import { JsonPath } from './jsonPath';
+import { ValueCoercion } from './valueCoercion';
+import { FieldAccessPolicy } from './accessPolicy';
+import { ErrorCollector, FilterLimitExceededError, InvalidFieldError, InvalidFilterError, InvalidValueError, UnsupportedOperatorError } from './errors';
 
 export interface CustomTransformers {
     [key: string]: (value: any) => any;
 }
 
+export interface FilterLeaf {
+    field: string;
+    op: string;
+    value?: any;
+}
+
+export interface FilterGroup {
+    and?: FilterNode[];
+    or?: FilterNode[];
+    not?: FilterNode;
+}
+
+export type FilterNode = FilterLeaf | FilterGroup;
+
 export class FilterConditionBuilder {
     private fieldMappings: Map<string, FieldMapping>;
     private customTransformers: Map<string, (value: any) => any>;
@@ -13,16 +31,50 @@ export class FilterConditionBuilder {
     private values: any[];
     private paramIndex: number;
     private maxConditions: number;
-
-    constructor(fieldMappings: Map<string, FieldMapping>, customTransformers: Map<string, (value: any) => any> = new Map()) {
+    private operators: Map<string, FilterOperation>;
+    private timeZone: string;
+    private volatile: boolean;
+    private errors: ErrorCollector;
+    private access: FieldAccessPolicy | null;
+
+    constructor(
+        fieldMappings: Map<string, FieldMapping>,
+        customTransformers: Map<string, (value: any) => any> = new Map(),
+        paramOffset: number = 0,
+        operators: Map<string, FilterOperation> = new Map(),
+        timeZone: string = 'UTC'
+    ) {
         this.fieldMappings = fieldMappings;
         this.customTransformers = customTransformers;
+        this.operators = operators;
+        this.timeZone = DateFilterUtils.validateTimeZone(timeZone);
+        this.volatile = false;
+        this.errors = new ErrorCollector();
+        this.access = null;
         this.conditions = [];
         this.values = [];
-        this.paramIndex = 1;
+        this.paramIndex = paramOffset + 1;
         this.maxConditions = 50;
     }
 
+    /**
+     * Records invalid conditions in the collector and skips them instead of throwing, so every
+     * problem in a request can be reported together.
+     */
+    collectErrors(collector: ErrorCollector): this {
+        this.errors = collector;
+        return this;
+    }
+
+    /**
+     * Rejects queryParams and filter tree conditions on fields the policy does not let its role
+     * filter on. Required conditions are set by the server and are not checked.
+     */
+    restrictAccess(access: FieldAccessPolicy | null): this {
+        this.access = access;
+        return this;
+    }
+
     addRequiredConditions(requiredFilters: Record<string, any>): this {
         for (const [field, value] of Object.entries(requiredFilters)) {
             this.addCondition(field, 'eq', value);
@@ -36,7 +88,8 @@ export class FilterConditionBuilder {
 
         for (const [paramKey, paramValue] of Object.entries(queryParams)) {
             if (conditionCount >= this.maxConditions) {
-                throw new Error('Maximum number of filter conditions exceeded');
+                this.errors.report(new FilterLimitExceededError('Maximum number of filter conditions exceeded', { limit: this.maxConditions }));
+                break;
             }
             if (this.shouldSkipParam(paramKey, paramValue, excludeFields)) {
                 continue;
@@ -47,9 +100,9 @@ export class FilterConditionBuilder {
 
             if (operatorMatch) {
                 [, fieldName, operator] = operatorMatch;
-            } else if (this.fieldMappings.get(paramKey)) {
+            } else if (JsonPath.resolve(this.fieldMappings, paramKey)) {
                 fieldName = paramKey;
-                operator = this.getDefaultOperator(this.fieldMappings.get(paramKey)!.type);
+                operator = FilterConditionBuilder.defaultOperator(JsonPath.resolve(this.fieldMappings, paramKey)!.type);
             } else {
                 continue;
             }
@@ -63,162 +116,189 @@ export class FilterConditionBuilder {
 
         for (const [operator, filters] of groupedFilters) {
             for (const { fieldName, paramValue } of filters) {
-                this.addCondition(fieldName, operator, paramValue);
+                this.addRequestedCondition(fieldName, operator, paramValue);
             }
         }
 
         return this;
     }
 
-    addCondition(field: string, operator: string, value: any): this {
-        const mapping = this.fieldMappings.get(field);
-        if (!mapping) {
-            throw new Error(`Invalid filter field: ${field}`);
+    addFilterTree(tree: FilterNode | null | undefined): this {
+        if (!tree) {
+            return this;
         }
 
-        if (['status', 'createdByUser'].includes(field) || 
-            mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT')) {
+        const leaves = this.errors.attempt(() => this.countFilterLeaves(tree), 0);
+        if (leaves > this.maxConditions) {
+            this.errors.report(new FilterLimitExceededError('Maximum number of filter conditions exceeded', { limit: this.maxConditions }));
             return this;
         }
 
-        const operation = FilterOperations.get(operator);
-        const dbField = mapping.dbField;
+        const condition = this.errors.attempt(() => this.renderFilterNode(tree), null);
+        if (condition) {
+            this.conditions.push(condition);
+        }
+        return this;
+    }
 
-        this.buildCondition(dbField, operation, value, mapping.type);
+    addCondition(field: string, operator: string, value: any): this {
+        this.errors.attempt(() => this.applyCondition(field, operator, value), undefined);
         return this;
     }
 
-    private buildCondition(dbField: string, operation: FilterOperation, value: any, fieldType: string): void {
-        const transformer = this.customTransformers.get(dbField) || operation.valueTransformer;
-        switch (operation.operator) {
-            case 'isNull':
-            case 'isNotNull':
-                this.conditions.push(`${dbField} ${operation.sqlOperator}`);
-                break;
+    /**
+     * Scope fields are checked when the scope is added, so their conditions bypass the skip for
+     * `status`, `createdByUser` and computed fields that query params are subject to.
+     */
+    addScopeCondition(field: string, operator: string, value: any): this {
+        this.errors.attempt(() => this.applyCondition(field, operator, value, false), undefined);
+        return this;
+    }
 
-            case 'in':
-            case 'notIn':
-                const inValues = Array.isArray(value) ? value : value.split(',').map((v: string) => v.trim());
-                const placeholders = inValues.map(() => `$${this.paramIndex++}`).join(', ');
-                this.conditions.push(`${dbField} ${operation.sqlOperator} (${placeholders})`);
-                this.values.push(...inValues);
-                break;
+    private addRequestedCondition(field: string, operator: string, value: any, skipLegacyFields: boolean = true): void {
+        this.errors.attempt(() => {
+            this.access?.check(field, 'filter');
+            this.applyCondition(field, operator, value, skipLegacyFields);
+        }, undefined);
+    }
 
-            case 'between':
-            case 'notBetween':
-            case 'dateRange':
-                const range = operation.operator === 'dateRange' 
-                    ? DateFilterUtils.parseDateRange(value)
-                    : { start: value.start || value[0], end: value.end || value[1] };
-                this.conditions.push(`${dbField} ${operation.sqlOperator} $${this.paramIndex} AND $${this.paramIndex + 1}`);
-                this.values.push(range.start, range.end);
-                this.paramIndex += 2;
-                break;
+    /**
+     * Required filters and query params on `status`, `createdByUser` and computed fields are
+     * skipped. Filter tree leaves and scopes cannot be dropped without changing what the query
+     * matches, so they render those fields and reject computed ones.
+     */
+    private applyCondition(field: string, operator: string, value: any, skipLegacyFields: boolean = true): void {
+        const mapping = JsonPath.resolve(this.fieldMappings, field);
+        if (!mapping) {
+            throw new InvalidFieldError(`Invalid filter field: ${field}`, { field, operator, usage: 'filter' });
+        }
 
-            case 'monthYear':
-                const [year, month] = value.split('-').map(Number);
-                const monthRange = DateFilterUtils.getMonthRange(year, month);
-                this.conditions.push(`${dbField} BETWEEN $${this.paramIndex} AND $${this.paramIndex + 1}`);
-                this.values.push(monthRange.start, monthRange.end);
-                this.paramIndex += 2;
-                break;
+        const computed = mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT');
+        if (skipLegacyFields && (['status', 'createdByUser'].includes(field) || computed)) {
+            return;
+        }
+        if (computed) {
+            throw new InvalidFieldError(`Cannot filter on computed field: ${field}`, { field, operator, usage: 'filter', reason: 'computed' });
+        }
 
-            case 'year':
-                const yearRange = DateFilterUtils.getYearRange(parseInt(value));
-                this.conditions.push(`${dbField} BETWEEN $${this.paramIndex} AND $${this.paramIndex + 1}`);
-                this.values.push(yearRange.start, yearRange.end);
-                this.paramIndex += 2;
-                break;
+        if (!this.operators.has(operator) && !FilterOperations.has(operator)) {
+            throw new UnsupportedOperatorError(`Unsupported filter operation: ${operator}`, { field, operator });
+        }
+        const operation = this.operators.get(operator) ?? FilterOperations.get(operator);
 
-            case 'any':
-            case 'all':
-                const arrayValues = Array.isArray(value) ? value : value.split(',').map((v: string) => v.trim());
-                this.conditions.push(`${dbField} ${operation.sqlOperator} ($${this.paramIndex})`);
-                this.values.push(arrayValues);
-                this.paramIndex++;
-                break;
+        this.buildCondition(field, mapping, operation, value);
+    }
 
-            case 'col':
-                const colField = this.fieldMappings.get(value)?.dbField || value;
-                this.conditions.push(`${dbField} ${operation.sqlOperator} ${colField}`);
-                break;
+    private buildCondition(field: string, mapping: FieldMapping, operation: FilterOperation, value: any): void {
+        const fieldType = mapping.type;
+        if (!operation.validate(value, { field, fieldType })) {
+            throw new InvalidValueError(`Invalid value for filter operation ${operation.operator} on field ${field}`, { field, operator: operation.operator, value });
+        }
+        value = ValueCoercion.coerceOperand(operation.operand, value, mapping, { field, operator: operation.operator });
 
-            case 'jsonContains':
-            case 'jsonContained':
-                const jsonValue = typeof value === 'string' ? value : JSON.stringify(value);
-                this.conditions.push(`${dbField} ${operation.sqlOperator} $${this.paramIndex}::jsonb`);
-                this.values.push(jsonValue);
-                this.paramIndex++;
-                break;
+        const param = (paramValue: any) => {
+            this.values.push(paramValue);
+            return `$${this.paramIndex++}`;
+        };
+        const isJsonPath = JsonPath.isJsonPath(mapping);
+        const dbField = isJsonPath ? JsonPath.filter(mapping, param(mapping.jsonPath)) : mapping.dbField;
+
+        const transformer = this.customTransformers.get(mapping.dbField);
+        this.volatile = this.volatile || operation.volatile;
+        const condition = this.renderCondition(operation, value, {
+            field,
+            dbField,
+            fieldType,
+            mapping,
+            sqlOperator: operation.sqlOperator,
+            castSuffix: isJsonPath ? '' : this.getCastSuffix(fieldType),
+            timeZone: this.timeZone,
+            param,
+            transform: (rawValue: any) => transformer ? transformer(rawValue) : operation.transform(rawValue),
+            resolveField: (name: string) => {
+                const resolved = JsonPath.resolve(this.fieldMappings, name);
+                return resolved && !JsonPath.isJsonPath(resolved) ? resolved.dbField : undefined;
+            }
+        });
+        this.conditions.push(condition);
+    }
 
-            case 'jsonKeyExists':
-            case 'jsonAnyKeyExists':
-            case 'jsonAllKeysExist':
-                const keyValue = Array.isArray(value) ? value : [value];
-                this.conditions.push(`${dbField} ${operation.sqlOperator} $${this.paramIndex}`);
-                this.values.push(keyValue);
-                this.paramIndex++;
-                break;
+    private renderCondition(operation: FilterOperation, value: any, context: FilterRenderContext): string {
+        try {
+            return operation.render(value, context);
+        } catch (error) {
+            // Date and other value helpers do not know which filter they were called for
+            if (error instanceof InvalidValueError) {
+                error.details.field ??= context.field;
+                error.details.operator ??= operation.operator;
+            }
+            throw error;
+        }
+    }
 
-            case 'jsonPath':
-                const { jsonPath: jsonPathVal, value: pathValue } = value as { jsonPath: string, value: any };
-                this.conditions.push(`${dbField}${operation.sqlOperator} $${this.paramIndex} = $${this.paramIndex + 1}`);
-                this.values.push(jsonPathVal, pathValue);
-                this.paramIndex += 2;
-                break;
+    private renderFilterNode(node: FilterNode): string | null {
+        if (this.isFilterLeaf(node)) {
+            const start = this.conditions.length;
+            // A dropped leaf would change what the surrounding OR or NOT matches
+            this.addRequestedCondition(node.field, node.op, node.value, false);
+            const added = this.conditions.splice(start);
+            return added.length > 0 ? added.join(' AND ') : null;
+        }
 
-            case 'jsonPathText':
-                this.conditions.push(`${dbField}${operation.sqlOperator} $${this.paramIndex}::jsonb`);
-                this.values.push(value);
-                this.paramIndex++;
-                break;
+        const unknownKeys = Object.keys(node).filter(key => !['and', 'or', 'not'].includes(key));
+        if (unknownKeys.length > 0) {
+            throw new InvalidFilterError(`Invalid filter group key: ${unknownKeys.join(', ')}`, { value: unknownKeys, allowed: ['and', 'or', 'not'] });
+        }
 
-            case 'jsonEq':
-                const [jsonPathEq, eqValue] = Array.isArray(value) ? value : [value.path, value.value];
-                this.conditions.push(`${dbField}${operation.sqlOperator} $${this.paramIndex} = $${this.paramIndex + 1}`);
-                this.values.push(jsonPathEq, eqValue);
-                this.paramIndex += 2;
-                break;
+        const parts: string[] = [];
+        const andParts = this.renderFilterList(node.and, 'and');
+        if (andParts.length > 0) {
+            parts.push(andParts.length > 1 ? `(${andParts.join(' AND ')})` : andParts[0]);
+        }
 
-            case 'fts':
-            case 'ftsPlain':
-            case 'ftsPhrase':
-            case 'ftsWeb':
-                const tsquery = transformer ? transformer(value) : `'${value}'`;
-                this.conditions.push(`${dbField} ${operation.sqlOperator}(${tsquery})`);
-                this.values.push(value);
-                this.paramIndex++;
-                break;
+        const orParts = this.renderFilterList(node.or, 'or');
+        if (orParts.length > 0) {
+            parts.push(orParts.length > 1 ? `(${orParts.join(' OR ')})` : orParts[0]);
+        }
 
-            case 'ciEq':
-            case 'ciNe':
-                const ciValue = transformer ? transformer(value) : value;
-                this.conditions.push(`${dbField} ${operation.sqlOperator} $${this.paramIndex}`);
-                this.values.push(ciValue);
-                this.paramIndex++;
-                break;
+        if (node.not) {
+            const notPart = this.renderFilterNode(node.not);
+            if (notPart) {
+                parts.push(`NOT (${notPart})`);
+            }
+        }
 
-            case 'isTrue':
-            case 'isFalse':
-                this.conditions.push(`${dbField} ${operation.sqlOperator} $${this.paramIndex}`);
-                this.values.push(operation.transform(undefined));
-                this.paramIndex++;
-                break;
+        if (parts.length === 0) {
+            return null;
+        }
+        return parts.length > 1 ? `(${parts.join(' AND ')})` : parts[0];
+    }
 
-            case 'distinctFrom':
-            case 'notDistinctFrom':
-                this.conditions.push(`${dbField} ${operation.sqlOperator} $${this.paramIndex}`);
-                this.values.push(value);
-                this.paramIndex++;
-                break;
+    private renderFilterList(nodes: FilterNode[] | undefined, key: string): string[] {
+        if (nodes === undefined) {
+            return [];
+        }
+        if (!Array.isArray(nodes)) {
+            throw new InvalidFilterError(`Filter group "${key}" must be an array`, { value: nodes });
+        }
+        return nodes
+            .map(node => this.renderFilterNode(node))
+            .filter((condition): condition is string => Boolean(condition));
+    }
 
-            default:
-                const transformedValue = transformer ? transformer(value) : operation.transform(value);
-                const castSuffix = this.getCastSuffix(fieldType);
-                this.conditions.push(`${dbField}${castSuffix} ${operation.sqlOperator} $${this.paramIndex}`);
-                this.values.push(transformedValue);
-                this.paramIndex++;
+    private countFilterLeaves(node: FilterNode): number {
+        if (this.isFilterLeaf(node)) {
+            return 1;
+        }
+        const children = [...(node.and || []), ...(node.or || []), ...(node.not ? [node.not] : [])];
+        return children.reduce((count, child) => count + this.countFilterLeaves(child), 0);
+    }
+
+    private isFilterLeaf(node: FilterNode): node is FilterLeaf {
+        if (!node || typeof node !== 'object') {
+            throw new InvalidFilterError('Invalid filter node', { value: node });
         }
+        return 'field' in node;
     }
 
     private shouldSkipParam(paramKey: string, paramValue: any, excludeFields: string[]): boolean {
@@ -229,7 +309,8 @@ export class FilterConditionBuilder {
                ['limit', 'offset', 'sort', 'sortField', 'fields'].includes(paramKey);
     }
 
-    private getDefaultOperator(fieldType: string): string {
+    /** Operator applied to a query param given without an `_operator` suffix */
+    static defaultOperator(fieldType: string): string {
         switch (fieldType) {
             case 'string':
                 return 'like';
@@ -267,6 +348,11 @@ export class FilterConditionBuilder {
         }
     }
 
+    /** True when a condition depends on the current time, e.g. `last` or `relative` */
+    isVolatile(): boolean {
+        return this.volatile;
+    }
+
     build(): { text: string, values: any[] } {
         return {
             text: this.conditions.length > 0 ? `WHERE ${this.conditions.join(' AND ')}` : '',
@@ -1,23 +1,147 @@
+import { DateFilterUtils, DateRange, RelativeDateRange } from './dateUtils';
+import { FieldMapping } from './fieldMapping';
+import { FullTextSearch, TsQueryMode } from './fullTextSearch';
+import { FilterOperand } from './valueCoercion';
+import { InvalidValueError, UnsupportedOperatorError } from './errors';
+
+/**
+ * Helpers handed to an operation while it renders a condition
+ */
+export interface FilterRenderContext {
+    field: string;
+    dbField: string;
+    fieldType: string;
+    mapping: FieldMapping;
+    sqlOperator: string;
+    castSuffix: string;
+    timeZone: string;
+    param: (value: any) => string;
+    transform: (value: any) => any;
+    resolveField: (field: string) => string | undefined;
+}
+
+export type FilterRenderer = (value: any, context: FilterRenderContext) => string;
+export type FilterValueValidator = (value: any, context: { field: string, fieldType: string }) => boolean;
+
 /**
  * Interface for filter operation configuration
  */
 export interface FilterOperationConfig {
     operator: string;
-    sqlOperator: string;
+    sqlOperator?: string;
     valueTransformer?: (value: any) => any;
+    render?: FilterRenderer;
+    validate?: FilterValueValidator;
+    /** Declares the value shape so it is coerced to the field type before rendering */
+    operand?: FilterOperand;
+    /** Set when the rendered values depend on the current time, so the query must not be cached */
+    volatile?: boolean;
 }
 
+const toList = (value: any): any[] =>
+    Array.isArray(value) ? value : String(value).split(',').map(v => v.trim());
+
+const toJson = (value: any): string => typeof value === 'string' ? value : JSON.stringify(value);
+
+const renderNullCheck: FilterRenderer = (_, ctx) => `${ctx.dbField} ${ctx.sqlOperator}`;
+
+const renderList: FilterRenderer = (value, ctx) =>
+    `${ctx.dbField} ${ctx.sqlOperator} (${toList(value).map(v => ctx.param(v)).join(', ')})`;
+
+const renderRange: FilterRenderer = (value, ctx) => {
+    const range = Array.isArray(value) ? { start: value[0], end: value[1] } : DateFilterUtils.parseDateRange(value);
+    return `${ctx.dbField} ${ctx.sqlOperator} ${ctx.param(range.start)} AND ${ctx.param(range.end)}`;
+};
+
+const DAYS_OF_WEEK = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * Date ranges are compared half-open. `date` columns get calendar dates in the caller's zone,
+ * anything else gets instants.
+ */
+const renderDateRange = (range: DateRange, ctx: FilterRenderContext): string => {
+    const bounds = ctx.fieldType === 'date' ? DateFilterUtils.toDateOnlyRange(range, ctx.timeZone) : range;
+    return `${ctx.dbField} >= ${ctx.param(bounds.start)} AND ${ctx.dbField} < ${ctx.param(bounds.end)}`;
+};
+
+const renderDateBound = (bound: 'before' | 'after'): FilterRenderer => (value, ctx) => {
+    const day = DateFilterUtils.parseDateOnly(value);
+    if (!day) {
+        DateFilterUtils.parseInstant(value);
+    }
+    if (!day || ctx.fieldType === 'date') {
+        return `${ctx.dbField} ${bound === 'before' ? '<' : '>'} ${ctx.param(value)}`;
+    }
+    // A date-only bound covers its whole day: before midnight, or from the following midnight
+    const range = DateFilterUtils.getDayRange(day[0], day[1], day[2], ctx.timeZone);
+    return bound === 'before'
+        ? `${ctx.dbField} < ${ctx.param(range.start)}`
+        : `${ctx.dbField} >= ${ctx.param(range.end)}`;
+};
+
+const renderDayOfWeek: FilterRenderer = (value, ctx) => {
+    const days = toList(value).map(day => {
+        const name = String(day).toLowerCase().slice(0, 3);
+        const iso = DAYS_OF_WEEK.includes(name) ? DAYS_OF_WEEK.indexOf(name) + 1 : Number(day);
+        if (!Number.isInteger(iso) || iso < 1 || iso > 7) {
+            throw new InvalidValueError(`Invalid day of week: ${day}`, { field: ctx.field, operator: 'dayOfWeek', value: day, allowed: DAYS_OF_WEEK });
+        }
+        return iso;
+    });
+    const local = ctx.fieldType === 'date'
+        ? ctx.dbField
+        : `${ctx.dbField}::timestamptz AT TIME ZONE ${ctx.param(ctx.timeZone)}`;
+    return `EXTRACT(ISODOW FROM ${local}) IN (${days.map(day => ctx.param(day)).join(', ')})`;
+};
+
+const renderArray: FilterRenderer = (value, ctx) => `${ctx.dbField} ${ctx.sqlOperator} (${ctx.param(toList(value))})`;
+
+const renderJsonKeys: FilterRenderer = (value, ctx) =>
+    `${ctx.dbField} ${ctx.sqlOperator} ${ctx.param(Array.isArray(value) ? value : [value])}`;
+
+const renderJsonDocument: FilterRenderer = (value, ctx) => `${ctx.dbField} ${ctx.sqlOperator} ${ctx.param(toJson(value))}::jsonb`;
+
+const renderJsonPath: FilterRenderer = (value, ctx) => {
+    const [path, pathValue] = Array.isArray(value) ? value : [value.jsonPath ?? value.path, value.value];
+    return `${ctx.dbField}${ctx.sqlOperator} ${ctx.param(path)} = ${ctx.param(pathValue)}`;
+};
+
+const renderFts = (mode: TsQueryMode): FilterRenderer => (value, ctx) => {
+    const { query, config } = typeof value === 'object' && value !== null ? value : { query: value, config: undefined };
+    const ftsConfig = config ?? ctx.mapping.ftsConfig;
+    const configParam = ftsConfig ? ctx.param(ftsConfig) : null;
+    const queryParam = ctx.param(ctx.transform(query));
+    return `${FullTextSearch.document(ctx.dbField, ctx.fieldType, configParam)} ${ctx.sqlOperator} ${FullTextSearch.tsquery(mode, queryParam, configParam)}`;
+};
+
+const validateFts: FilterValueValidator = value => {
+    const query = typeof value === 'object' && value !== null ? value.query : value;
+    return typeof query === 'string' && query.trim() !== '';
+};
+
+const renderParam: FilterRenderer = (value, ctx) => `${ctx.dbField} ${ctx.sqlOperator} ${ctx.param(ctx.transform(value))}`;
+
+const renderConstant = (constant: any): FilterRenderer => (_, ctx) => `${ctx.dbField} ${ctx.sqlOperator} ${ctx.param(constant)}`;
+
+const renderColumn: FilterRenderer = (value, ctx) => {
+    const column = ctx.resolveField(value) ?? value;
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/.test(column)) {
+        throw new InvalidValueError(`Invalid comparison column: ${value}`, { field: ctx.field, operator: 'col', value });
+    }
+    return `${ctx.dbField} ${ctx.sqlOperator} ${column}`;
+};
+
 /**
  * Filter operations configuration
  */
 export const FILTER_OPERATIONS: FilterOperationConfig[] = [
     // Basic Comparisons
-    { operator: 'eq', sqlOperator: '=' },
-    { operator: 'ne', sqlOperator: '!=' },
-    { operator: 'gt', sqlOperator: '>' },
-    { operator: 'gte', sqlOperator: '>=' },
-    { operator: 'lt', sqlOperator: '<' },
-    { operator: 'lte', sqlOperator: '<=' },
+    { operator: 'eq', sqlOperator: '=', operand: 'value' },
+    { operator: 'ne', sqlOperator: '!=', operand: 'value' },
+    { operator: 'gt', sqlOperator: '>', operand: 'value' },
+    { operator: 'gte', sqlOperator: '>=', operand: 'value' },
+    { operator: 'lt', sqlOperator: '<', operand: 'value' },
+    { operator: 'lte', sqlOperator: '<=', operand: 'value' },
 
     // LIKE variants
     { operator: 'like', sqlOperator: 'ILIKE', valueTransformer: v => `%${v}%` },
@@ -25,21 +149,42 @@ export const FILTER_OPERATIONS: FilterOperationConfig[] = [
     { operator: 'endsWith', sqlOperator: 'ILIKE', valueTransformer: v => `%${v}` },
 
     // Array and Set
-    { operator: 'in', sqlOperator: 'IN' },
-    { operator: 'notIn', sqlOperator: 'NOT IN' },
+    { operator: 'in', sqlOperator: 'IN', render: renderList, operand: 'list' },
+    { operator: 'notIn', sqlOperator: 'NOT IN', render: renderList, operand: 'list' },
 
     // Range
-    { operator: 'between', sqlOperator: 'BETWEEN' },
-    { operator: 'notBetween', sqlOperator: 'NOT BETWEEN' },
+    { operator: 'between', sqlOperator: 'BETWEEN', render: renderRange, operand: 'range' },
+    { operator: 'notBetween', sqlOperator: 'NOT BETWEEN', render: renderRange, operand: 'range' },
 
     // Null Checks
-    { operator: 'isNull', sqlOperator: 'IS NULL' },
-    { operator: 'isNotNull', sqlOperator: 'IS NOT NULL' },
+    { operator: 'isNull', sqlOperator: 'IS NULL', render: renderNullCheck },
+    { operator: 'isNotNull', sqlOperator: 'IS NOT NULL', render: renderNullCheck },
 
     // Dates
-    { operator: 'dateRange', sqlOperator: 'BETWEEN' },
-    { operator: 'monthYear', sqlOperator: 'BETWEEN' },
-    { operator: 'year', sqlOperator: '=' },
+    { operator: 'dateRange', render: (value, ctx) => renderDateRange(DateFilterUtils.getDateRange(value, ctx.timeZone), ctx) },
+    {
+        operator: 'monthYear',
+        render: (value, ctx) => {
+            const [year, month] = String(value).split('-').map(Number);
+            return renderDateRange(DateFilterUtils.getMonthRange(year, month, ctx.timeZone), ctx);
+        },
+        validate: value => /^\d{4}-(0?[1-9]|1[0-2])$/.test(String(value))
+    },
+    {
+        operator: 'year',
+        render: (value, ctx) => renderDateRange(DateFilterUtils.getYearRange(parseInt(value), ctx.timeZone), ctx),
+        validate: value => /^\d{4}$/.test(String(value))
+    },
+    { operator: 'isoWeek', render: (value, ctx) => renderDateRange(DateFilterUtils.getIsoWeekRange(value, ctx.timeZone), ctx) },
+    { operator: 'last', render: (value, ctx) => renderDateRange(DateFilterUtils.getLastRange(value, ctx.timeZone), ctx), volatile: true },
+    {
+        operator: 'relative',
+        render: (value, ctx) => renderDateRange(DateFilterUtils.getRelativeRange(value as RelativeDateRange, ctx.timeZone), ctx),
+        volatile: true
+    },
+    { operator: 'before', render: renderDateBound('before') },
+    { operator: 'after', render: renderDateBound('after') },
+    { operator: 'dayOfWeek', render: renderDayOfWeek },
 
     // String Contains
     { operator: 'contains', sqlOperator: 'LIKE', valueTransformer: v => `%${v}%` },
@@ -52,22 +197,31 @@ export const FILTER_OPERATIONS: FilterOperationConfig[] = [
     { operator: 'notIRegexp', sqlOperator: '!~*' },
 
     // PostgreSQL-specific Array
-    { operator: 'any', sqlOperator: '= ANY' },
-    { operator: 'all', sqlOperator: '= ALL' },
+    { operator: 'any', sqlOperator: '= ANY', render: renderArray, operand: 'list' },
+    { operator: 'all', sqlOperator: '= ALL', render: renderArray, operand: 'list' },
 
     // IS, NOT IS
     { operator: 'is', sqlOperator: 'IS' },
     { operator: 'not', sqlOperator: 'IS NOT' },
 
     // JSON (PostgreSQL JSONB)
-    { operator: 'jsonContains', sqlOperator: '@>' },
-    { operator: 'jsonContained', sqlOperator: '<@' },
-    { operator: 'jsonKeyExists', sqlOperator: '?', valueTransformer: v => v },
-    { operator: 'jsonAnyKeyExists', sqlOperator: '?|', valueTransformer: v => v },
-    { operator: 'jsonAllKeysExist', sqlOperator: '?&', valueTransformer: v => v },
-    { operator: 'jsonPath', sqlOperator: '#>>' },
-    { operator: 'jsonPathText', sqlOperator: '#>' },
-    { operator: 'jsonEq', sqlOperator: '#>>', valueTransformer: ([path, val]) => `${path} = '${val}'` },
+    { operator: 'jsonContains', sqlOperator: '@>', render: renderJsonDocument },
+    { operator: 'jsonContained', sqlOperator: '<@', render: renderJsonDocument },
+    { operator: 'jsonKeyExists', sqlOperator: '?', render: (value, ctx) => `${ctx.dbField} ${ctx.sqlOperator} ${ctx.param(value)}` },
+    { operator: 'jsonAnyKeyExists', sqlOperator: '?|', render: renderJsonKeys },
+    { operator: 'jsonAllKeysExist', sqlOperator: '?&', render: renderJsonKeys },
+    { operator: 'jsonPath', sqlOperator: '#>>', render: renderJsonPath },
+    { operator: 'jsonPathText', sqlOperator: '#>', render: (value, ctx) => `${ctx.dbField}${ctx.sqlOperator} ${ctx.param(value)}::jsonb` },
+    { operator: 'jsonEq', sqlOperator: '#>>', render: renderJsonPath },
+    {
+        operator: 'jsonPathExists',
+        render: (value, ctx) => {
+            const { path, vars } = typeof value === 'string' ? { path: value, vars: undefined } : value;
+            return vars
+                ? `jsonb_path_exists(${ctx.dbField}, ${ctx.param(path)}::jsonpath, ${ctx.param(toJson(vars))}::jsonb)`
+                : `jsonb_path_exists(${ctx.dbField}, ${ctx.param(path)}::jsonpath)`;
+        }
+    },
 
     // Array operations
     { operator: 'overlap', sqlOperator: '&&' },
@@ -75,25 +229,25 @@ export const FILTER_OPERATIONS: FilterOperationConfig[] = [
     { operator: 'containsArray', sqlOperator: '@>' },
 
     // Full-Text Search
-    { operator: 'fts', sqlOperator: '@@', valueTransformer: v => `'${v}'` },
-    { operator: 'ftsPlain', sqlOperator: '@@ plainto_tsquery', valueTransformer: v => `'${v}'` },
-    { operator: 'ftsPhrase', sqlOperator: '@@ phraseto_tsquery', valueTransformer: v => `'${v}'` },
-    { operator: 'ftsWeb', sqlOperator: '@@ websearch_to_tsquery', valueTransformer: v => `'${v}'` },
+    { operator: 'fts', sqlOperator: '@@', render: renderFts('raw'), validate: validateFts },
+    { operator: 'ftsPlain', sqlOperator: '@@', render: renderFts('plain'), validate: validateFts },
+    { operator: 'ftsPhrase', sqlOperator: '@@', render: renderFts('phrase'), validate: validateFts },
+    { operator: 'ftsWeb', sqlOperator: '@@', render: renderFts('web'), validate: validateFts },
 
     // Case-insensitive
-    { operator: 'ciEq', sqlOperator: 'ILIKE' },
-    { operator: 'ciNe', sqlOperator: 'NOT ILIKE' },
+    { operator: 'ciEq', sqlOperator: 'ILIKE', render: renderParam },
+    { operator: 'ciNe', sqlOperator: 'NOT ILIKE', render: renderParam },
 
     // Column comparison
-    { operator: 'col', sqlOperator: '=' },
+    { operator: 'col', sqlOperator: '=', render: renderColumn },
 
     // Boolean
-    { operator: 'isTrue', sqlOperator: '=', valueTransformer: () => true },
-    { operator: 'isFalse', sqlOperator: '=', valueTransformer: () => false },
+    { operator: 'isTrue', sqlOperator: '=', render: renderConstant(true) },
+    { operator: 'isFalse', sqlOperator: '=', render: renderConstant(false) },
 
     // Null-safe (IS DISTINCT FROM)
-    { operator: 'distinctFrom', sqlOperator: 'IS DISTINCT FROM' },
-    { operator: 'notDistinctFrom', sqlOperator: 'IS NOT DISTINCT FROM' },
+    { operator: 'distinctFrom', sqlOperator: 'IS DISTINCT FROM', render: renderParam, operand: 'value' },
+    { operator: 'notDistinctFrom', sqlOperator: 'IS NOT DISTINCT FROM', render: renderParam, operand: 'value' },
 ];
 
 /**
@@ -103,16 +257,61 @@ export class FilterOperation {
     operator: string;
     sqlOperator: string;
     valueTransformer: ((value: any) => any) | null;
+    private renderer: FilterRenderer | null;
+    private validator: FilterValueValidator | null;
+    readonly volatile: boolean;
+    readonly operand: FilterOperand | undefined;
 
-    constructor(operator: string, sqlOperator: string, valueTransformer: ((value: any) => any) | null = null) {
+    constructor(
+        operator: string,
+        sqlOperator: string,
+        valueTransformer: ((value: any) => any) | null = null,
+        renderer: FilterRenderer | null = null,
+        validator: FilterValueValidator | null = null,
+        volatile: boolean = false,
+        operand?: FilterOperand
+    ) {
         this.operator = operator;
         this.sqlOperator = sqlOperator;
         this.valueTransformer = valueTransformer;
+        this.renderer = renderer;
+        this.validator = validator;
+        this.volatile = volatile;
+        this.operand = operand;
+    }
+
+    static fromConfig(config: FilterOperationConfig): FilterOperation {
+        if (!/^[a-zA-Z]+$/.test(config.operator)) {
+            throw new Error(`Invalid filter operation name: ${config.operator}`);
+        }
+        if (!config.render && !config.sqlOperator) {
+            throw new Error(`Filter operation ${config.operator} requires a render function or an sqlOperator`);
+        }
+        return new FilterOperation(
+            config.operator,
+            config.sqlOperator ?? '',
+            config.valueTransformer ?? null,
+            config.render ?? null,
+            config.validate ?? null,
+            config.volatile ?? false,
+            config.operand
+        );
     }
 
     transform(value: any): any {
         return this.valueTransformer ? this.valueTransformer(value) : value;
     }
+
+    validate(value: any, context: { field: string, fieldType: string }): boolean {
+        return this.validator ? this.validator(value, context) : true;
+    }
+
+    render(value: any, context: FilterRenderContext): string {
+        if (this.renderer) {
+            return this.renderer(value, context);
+        }
+        return `${context.dbField}${context.castSuffix} ${this.sqlOperator} ${context.param(context.transform(value))}`;
+    }
 }
 
 /**
@@ -120,10 +319,33 @@ export class FilterOperation {
  */
 export class FilterOperations {
     private static operations: Map<string, FilterOperation> = new Map(
-        FILTER_OPERATIONS.map(op => [op.operator, new FilterOperation(op.operator, op.sqlOperator, op.valueTransformer)])
+        FILTER_OPERATIONS.map(op => [op.operator, FilterOperation.fromConfig(op)])
     );
     private static operationCache: Map<string, FilterOperation> = new Map();
 
+    /**
+     * Registers an operator for every builder. Built-in operators cannot be replaced;
+     * use QueryBuilder.registerOperator to override one for a single builder.
+     */
+    static register(config: FilterOperationConfig): void {
+        if (this.operations.has(config.operator)) {
+            throw new Error(`Filter operation already registered: ${config.operator}`);
+        }
+        this.operations.set(config.operator, FilterOperation.fromConfig(config));
+    }
+
+    static unregister(operator: string): void {
+        if (FILTER_OPERATIONS.some(op => op.operator === operator)) {
+            throw new Error(`Cannot unregister built-in filter operation: ${operator}`);
+        }
+        this.operations.delete(operator);
+        this.operationCache.delete(operator);
+    }
+
+    static has(operator: string): boolean {
+        return this.operations.has(operator);
+    }
+
     static get(operator: string): FilterOperation {
         if (this.operationCache.has(operator)) {
             return this.operationCache.get(operator)!;
@@ -131,10 +353,10 @@ export class FilterOperations {
 
         const operation = this.operations.get(operator);
         if (!operation) {
-            throw new Error(`Unsupported filter operation: ${operator}`);
+            throw new UnsupportedOperatorError(`Unsupported filter operation: ${operator}`, { operator });
         }
 
         this.operationCache.set(operator, operation);
         return operation;
     }
-} 
\ No newline at end of file
+}
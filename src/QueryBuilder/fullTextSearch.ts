@@ -0,0 +1,149 @@
+import { FieldMapping } from './fieldMapping';
+import { SqlIdentifier } from './sqlIdentifier';
+import { InvalidFieldError, InvalidValueError } from './errors';
+
+export type TsQueryMode = 'raw' | 'plain' | 'phrase' | 'web';
+export type TsRankFunction = 'ts_rank' | 'ts_rank_cd';
+
+export const TSQUERY_FUNCTIONS: Record<TsQueryMode, string> = {
+    raw: 'to_tsquery',
+    plain: 'plainto_tsquery',
+    phrase: 'phraseto_tsquery',
+    web: 'websearch_to_tsquery'
+};
+
+export interface FullTextSearchOptions {
+    field: string;
+    query: string;
+    mode?: TsQueryMode;
+    config?: string;
+    rank?: TsRankFunction;
+    rankAlias?: string;
+    orderByRank?: boolean;
+    headline?: {
+        field: string;
+        alias?: string;
+        options?: string;
+    };
+}
+
+export interface FullTextSearchClause {
+    condition: string;
+    columns: string[];
+    orderBy: string | null;
+    values: any[];
+    /** Placeholders of the bound query and regconfig, reused by the headline column */
+    tsquery: string;
+    configParam: string | null;
+}
+
+export class FullTextSearch {
+    static tsquery(mode: TsQueryMode, queryParam: string, configParam: string | null = null): string {
+        const fn = TSQUERY_FUNCTIONS[mode];
+        if (!fn) {
+            throw new InvalidValueError(`Invalid full-text search mode: ${mode}`, { value: mode, allowed: Object.keys(TSQUERY_FUNCTIONS) });
+        }
+        return configParam ? `${fn}(${configParam}::regconfig, ${queryParam})` : `${fn}(${queryParam})`;
+    }
+
+    /**
+     * tsvector fields are matched as-is; text fields are converted with to_tsvector using the same configuration
+     */
+    static document(dbField: string, fieldType: string, configParam: string | null = null): string {
+        if (fieldType === 'tsvector') {
+            return dbField;
+        }
+        if (fieldType !== 'string' && fieldType !== 'text') {
+            throw new InvalidFieldError(`Full-text search requires a tsvector or text field: ${dbField}`, { usage: 'search', reason: 'type' });
+        }
+        return configParam ? `to_tsvector(${configParam}::regconfig, ${dbField})` : `to_tsvector(${dbField})`;
+    }
+
+    /**
+     * Column aliases the search adds to the select list
+     */
+    static aliases(options: FullTextSearchOptions): string[] {
+        return [
+            ...(options.rank ? [options.rankAlias ?? 'rank'] : []),
+            ...(options.headline ? [options.headline.alias ?? 'headline'] : [])
+        ];
+    }
+
+    /**
+     * Builds the search predicate plus an optional rank column. The query and regconfig are bound
+     * once and their placeholders reused by every expression. The headline is built separately,
+     * see headline().
+     */
+    static build(options: FullTextSearchOptions, fieldMappings: Map<string, FieldMapping>, paramOffset: number): FullTextSearchClause {
+        const { field, query, mode = 'web', rank, rankAlias = 'rank', orderByRank = true, headline } = options;
+        const mapping = fieldMappings.get(field);
+        if (!mapping) {
+            throw new InvalidFieldError(`Invalid search field: ${field}`, { field, usage: 'search' });
+        }
+        if (typeof query !== 'string' || query.trim() === '') {
+            throw new InvalidValueError('Full-text search query must be a non-empty string', { field, value: query });
+        }
+
+        const values: any[] = [];
+        const param = (value: any) => {
+            values.push(value);
+            return `$${paramOffset + values.length}`;
+        };
+
+        const config = options.config ?? mapping.ftsConfig ?? null;
+        const configParam = config ? param(config) : null;
+        const tsquery = this.tsquery(mode, param(query), configParam);
+        const document = this.document(mapping.dbField, mapping.type, configParam);
+
+        const columns: string[] = [];
+        let orderBy: string | null = null;
+        if (rank) {
+            if (rank !== 'ts_rank' && rank !== 'ts_rank_cd') {
+                throw new InvalidValueError(`Invalid rank function: ${rank}`, { value: rank, allowed: ['ts_rank', 'ts_rank_cd'] });
+            }
+            const alias = SqlIdentifier.sanitize(rankAlias);
+            columns.push(`${rank}(${document}, ${tsquery}) AS ${alias}`);
+            orderBy = orderByRank ? `${alias} DESC` : null;
+        }
+
+        if (headline) {
+            this.headlineMapping(headline.field, fieldMappings);
+        }
+
+        return { condition: `${document} @@ ${tsquery}`, columns, orderBy, values, tsquery, configParam };
+    }
+
+    /**
+     * The ts_headline column, if requested. Its options are bound only for the select list, so
+     * `paramOffset` must come after every value the count query shares with it.
+     */
+    static headline(
+        options: FullTextSearchOptions,
+        fieldMappings: Map<string, FieldMapping>,
+        clause: FullTextSearchClause,
+        paramOffset: number
+    ): { columns: string[], values: any[] } {
+        const { headline } = options;
+        if (!headline) {
+            return { columns: [], values: [] };
+        }
+
+        const headlineMapping = this.headlineMapping(headline.field, fieldMappings);
+        const values = headline.options ? [headline.options] : [];
+        const args = [
+            ...(clause.configParam ? [`${clause.configParam}::regconfig`] : []),
+            headlineMapping.dbField,
+            clause.tsquery,
+            ...(headline.options ? [`$${paramOffset + 1}`] : [])
+        ];
+        return { columns: [`ts_headline(${args.join(', ')}) AS ${SqlIdentifier.sanitize(headline.alias ?? 'headline')}`], values };
+    }
+
+    private static headlineMapping(field: string, fieldMappings: Map<string, FieldMapping>): FieldMapping {
+        const mapping = fieldMappings.get(field);
+        if (!mapping || (mapping.type !== 'string' && mapping.type !== 'text')) {
+            throw new InvalidFieldError(`Headline field must be a text field: ${field}`, { field, usage: 'headline' });
+        }
+        return mapping;
+    }
+}
@@ -1,7 +1,18 @@
 export * from './filterOperations';
 export * from './dateUtils';
 export * from './fieldMapping';
+export * from './fieldTypes';
 export * from './filterConditionBuilder';
 export * from './queryBuilder';
 export * from './responseMapper';
-export * from './pagination';
\ No newline at end of file
+export * from './pagination';
+export * from './sqlIdentifier';
+export * from './queryStringParser';
+export * from './fullTextSearch';
+export * from './jsonPath';
+export * from './windowFunctions';
+export * from './relations';
+export * from './scopes';
+export * from './accessPolicy';
+export * from './valueCoercion';
+export * from './errors';
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { FieldMapping } from './fieldMapping';
+
+const PATH_SEGMENT = /^[a-zA-Z0-9_]+$/;
+
+const JSON_CASTS: Partial<Record<FieldMapping['type'], string>> = {
+    number: 'numeric',
+    smallint: 'smallint',
+    bigint: 'bigint',
+    float: 'double precision',
+    double: 'double precision',
+    money: 'numeric',
+    boolean: 'boolean',
+    date: 'date',
+    timestamp: 'timestamp',
+    uuid: 'uuid'
+};
+
+/**
+ * Resolves nested JSON keys, either declared through FieldMapping.jsonPath or addressed
+ * with dotted names such as metadata.address.city on a json/jsonb mapping.
+ */
+export class JsonPath {
+    static isJsonPath(mapping: FieldMapping): boolean {
+        return Array.isArray(mapping.jsonPath) && mapping.jsonPath.length > 0;
+    }
+
+    /**
+     * Returns the mapping for a field, synthesising one for dotted keys below a json/jsonb field.
+     * Dotted keys without a declared mapping are extracted as text.
+     */
+    static resolve(fieldMappings: Map<string, FieldMapping>, field: string): FieldMapping | undefined {
+        const mapping = fieldMappings.get(field);
+        if (mapping) {
+            return mapping;
+        }
+
+        const segments = field.split('.');
+        for (let i = segments.length - 1; i > 0; i--) {
+            const base = fieldMappings.get(segments.slice(0, i).join('.'));
+            if (!base) {
+                continue;
+            }
+            const path = segments.slice(i);
+            if ((base.type !== 'jsonb' && base.type !== 'json') || !path.every(segment => PATH_SEGMENT.test(segment))) {
+                return undefined;
+            }
+            return { dbField: base.dbField, type: 'string', jsonPath: [...(base.jsonPath || []), ...path] };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Renders a ->/->> chain with literal keys, for select lists and ORDER BY
+     */
+    static select(mapping: FieldMapping): string {
+        const path = this.validatePath(mapping);
+        const lastOperator = this.returnsJson(mapping) ? '->' : '->>';
+        const chain = path
+            .map((segment, index) => `${index === path.length - 1 ? lastOperator : '->'}${/^\d+$/.test(segment) ? segment : `'${segment}'`}`)
+            .join('');
+        return this.cast(`${mapping.dbField}${chain}`, mapping);
+    }
+
+    /**
+     * Renders a #>/#>> lookup whose path is bound as a text[] parameter, for filters
+     */
+    static filter(mapping: FieldMapping, pathParam: string): string {
+        this.validatePath(mapping);
+        return this.cast(`${mapping.dbField} ${this.returnsJson(mapping) ? '#>' : '#>>'} ${pathParam}`, mapping);
+    }
+
+    private static validatePath(mapping: FieldMapping): string[] {
+        const path = mapping.jsonPath || [];
+        const invalid = path.find(segment => !PATH_SEGMENT.test(String(segment)));
+        if (invalid !== undefined) {
+            throw new Error(`Invalid JSON path segment: ${invalid}`);
+        }
+        return path.map(String);
+    }
+
+    private static returnsJson(mapping: FieldMapping): boolean {
+        return mapping.type === 'json' || mapping.type === 'jsonb';
+    }
+
+    private static cast(expression: string, mapping: FieldMapping): string {
+        const cast = JSON_CASTS[mapping.type];
+        return cast ? `(${expression})::${cast}` : `(${expression})`;
+    }
+}
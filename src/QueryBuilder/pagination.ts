@@ -1,3 +1,5 @@
+import { InvalidCursorError } from './errors';
+
 export interface PaginationResult {
     totalRowCount: number;
     pageSize: number;
@@ -9,6 +11,21 @@ export interface PaginationResult {
     limit: number;
 }
 
+export interface CursorPaginationResult {
+    pageSize: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    totalRowCount?: number;
+}
+
+export interface DecodedCursor {
+    keys: string[];
+    values: any[];
+    backward: boolean;
+}
+
 export class PaginationBuilder {
     static build(totalCount: number, limit: number, offset: number): PaginationResult {
         const totalPages = Math.ceil(totalCount / limit);
@@ -25,4 +42,61 @@ export class PaginationBuilder {
             limit
         };
     }
-} 
\ No newline at end of file
+
+    static buildCursor<T extends Record<string, any>>(
+        rows: T[],
+        limit: number,
+        keys: string[],
+        cursor: string | null = null,
+        totalCount?: number
+    ): { data: T[], pagination: CursorPaginationResult } {
+        const decoded = cursor ? this.decodeCursor(cursor) : null;
+        const backward = decoded?.backward ?? false;
+        const hasMore = rows.length > limit;
+        const data = rows.slice(0, limit);
+        if (backward) {
+            data.reverse();
+        }
+
+        const hasNextPage = backward ? true : hasMore;
+        const hasPrevPage = backward ? hasMore : Boolean(decoded);
+        const first = data[0];
+        const last = data[data.length - 1];
+
+        return {
+            data,
+            pagination: {
+                pageSize: limit,
+                hasNextPage: hasNextPage && Boolean(last),
+                hasPrevPage: hasPrevPage && Boolean(first),
+                nextCursor: hasNextPage && last ? this.encodeCursor(keys, keys.map(key => this.keyValue(last, key)), false) : null,
+                prevCursor: hasPrevPage && first ? this.encodeCursor(keys, keys.map(key => this.keyValue(first, key)), true) : null,
+                ...(totalCount !== undefined ? { totalRowCount: totalCount } : {})
+            }
+        };
+    }
+
+    /** Rows mapped by ResponseMapper nest dotted fields, so `profile.city` is read as a path */
+    private static keyValue(row: Record<string, any>, key: string): any {
+        if (key in row) {
+            return row[key];
+        }
+        return key.split('.').reduce((value: any, segment) => value?.[segment], row);
+    }
+
+    static encodeCursor(keys: string[], values: any[], backward: boolean = false): string {
+        return Buffer.from(JSON.stringify({ k: keys, v: values, b: backward })).toString('base64url');
+    }
+
+    static decodeCursor(cursor: string): DecodedCursor {
+        try {
+            const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+            if (!Array.isArray(payload.k) || !Array.isArray(payload.v) || payload.k.length !== payload.v.length) {
+                throw new InvalidCursorError('Malformed cursor payload');
+            }
+            return { keys: payload.k, values: payload.v, backward: Boolean(payload.b) };
+        } catch {
+            throw new InvalidCursorError('Invalid pagination cursor', { value: cursor });
+        }
+    }
+}
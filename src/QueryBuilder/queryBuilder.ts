@@ -1,104 +1,489 @@
-import { FieldMapping } from './fieldMapping';
-import { FieldValidator } from './fieldMapping';
-import { FilterConditionBuilder } from './filterConditionBuilder';
-
-export interface QueryOptions {
+import { FieldMapping, SortSpec } from './fieldMapping';
+import { FieldValidator, SelectAlias } from './fieldMapping';
+import { FilterConditionBuilder, FilterNode } from './filterConditionBuilder';
+import { FilterOperation, FilterOperationConfig } from './filterOperations';
+import { FullTextSearch, FullTextSearchOptions } from './fullTextSearch';
+import { WindowDefinition, WindowFunctions } from './windowFunctions';
+import { DateFilterUtils, TimeBucketInterval } from './dateUtils';
+import { SqlIdentifier } from './sqlIdentifier';
+import { QueryStringParser, QueryStringParserOptions } from './queryStringParser';
+import { PaginationBuilder } from './pagination';
+import { ErrorCollector, InvalidCursorError, InvalidFieldError, InvalidQueryError, InvalidSortFieldError } from './errors';
+import { FieldMappings, FieldName, FilterParamKey, FilterParams, TypedFilterNode, TypedSortSpec } from './fieldTypes';
+import { RelationDefinition, RelationIncludes, Relations } from './relations';
+import { QueryScopes, ScopeConditions } from './scopes';
+import { AccessPolicy, FieldAccessPolicy, FieldUsage } from './accessPolicy';
+
+/**
+ * Options for buildSelectQuery. `TMappings` and `TOperators` come from the builder, so field names,
+ * `field_operator` keys and filter operators are checked when its mappings have literal types.
+ */
+export interface QueryOptions<TMappings extends FieldMappings = FieldMappings, TOperators extends string = never> {
     tableName: string;
-    fields?: string[] | string;
-    requiredFilters?: Record<string, any>;
-    queryParams?: Record<string, any>;
-    excludeFields?: string[];
+    /** A list is checked against the mappings; a comma-separated string is only checked at runtime */
+    fields?: FieldName<TMappings>[] | string;
+    requiredFilters?: { [K in FieldName<TMappings>]?: any };
+    queryParams?: FilterParams<TMappings, TOperators>;
+    filter?: TypedFilterNode<TMappings, TOperators>;
+    search?: FullTextSearchOptions;
+    windows?: WindowDefinition[];
+    /** Relations registered with addRelation, each selected as a nested array or object */
+    include?: RelationIncludes;
+    /** IANA zone used to resolve date filters such as `monthYear` or `relative`; defaults to UTC */
+    timeZone?: string;
+    excludeFields?: FilterParamKey<TMappings, TOperators>[];
     limit?: number;
     offset?: number;
-    sortField?: string | null;
+    sortField?: FieldName<TMappings> | null;
     sortDirection?: 'ASC' | 'DESC';
+    sort?: TypedSortSpec<TMappings>[];
+    pagination?: 'offset' | 'cursor';
+    cursor?: string | null;
+    skipCount?: boolean;
+    /** Report every invalid field, sort and filter in one QueryValidationError instead of the first */
+    collectErrors?: boolean;
+    /** The caller's role, checked against the mappings' `access` rules, and optional per-request field lists */
+    access?: AccessPolicy;
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL';
+
+export interface JoinCondition {
+    left: string;
+    right: string;
+}
+
+export interface JoinDefinition {
+    type: JoinType;
+    table: string;
+    alias?: string;
+    on: JoinCondition[];
+    fieldMappings?: Record<string, FieldMapping>;
+}
+
+const JOIN_TYPES: JoinType[] = ['INNER', 'LEFT', 'RIGHT', 'FULL'];
+const RAW_JOIN_TYPES = [
+    'JOIN', 'INNER JOIN', 'LEFT JOIN', 'LEFT OUTER JOIN',
+    'RIGHT JOIN', 'RIGHT OUTER JOIN', 'FULL JOIN', 'FULL OUTER JOIN', 'CROSS JOIN'
+];
+
+export interface WithClauseOptions {
+    recursive?: boolean;
+    materialized?: boolean;
+    columns?: string[];
+}
+
+export type WithClauseQuery =
+    | string
+    | { text: string, values?: any[] }
+    | { builder: QueryBuilder<any, any>, options: QueryOptions<any, any> };
+
+/**
+ * How much of a select query to build: a page of rows, every matching row without ORDER BY or
+ * LIMIT (the body of a builder-based CTE), or a `SELECT 1` existence check
+ */
+type SelectShape = 'page' | 'unpaged' | 'exists';
+
+interface WithClauseEntry extends WithClauseOptions {
+    name: string;
+    text: string;
+    values: any[];
+}
+
+export const AGGREGATE_FUNCTIONS = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'ARRAY_AGG', 'BOOL_AND', 'BOOL_OR', 'STDDEV', 'VARIANCE'];
+
+export interface AggregateDefinition<TMappings extends FieldMappings = FieldMappings, TOperators extends string = never> {
+    function: string;
+    field: FieldName<TMappings> | '*';
+    distinct?: boolean;
+    filter?: TypedFilterNode<TMappings, TOperators>;
+}
+
+export interface TimeBucket<TMappings extends FieldMappings = FieldMappings> {
+    field: FieldName<TMappings>;
+    interval: TimeBucketInterval;
+    timeZone?: string;
+    alias?: string;
+}
+
+/** `having` and `sort` refer to aggregate aliases and group fields, so they stay untyped */
+export interface AggregateQueryOptions<TMappings extends FieldMappings = FieldMappings, TOperators extends string = never> {
+    tableName: string;
+    aggregates?: Record<string, AggregateDefinition<TMappings, TOperators>>;
+    timeBucket?: TimeBucket<TMappings>;
+    groupBy?: FieldName<TMappings>[];
+    grouping?: 'ROLLUP' | 'CUBE';
+    groupingSets?: FieldName<TMappings>[][];
+    requiredFilters?: { [K in FieldName<TMappings>]?: any };
+    queryParams?: FilterParams<TMappings, TOperators>;
+    filter?: TypedFilterNode<TMappings, TOperators>;
+    having?: FilterNode;
+    sort?: SortSpec[];
+    limit?: number;
+    offset?: number;
+    excludeFields?: FilterParamKey<TMappings, TOperators>[];
+    timeZone?: string;
+    /** Group, bucket and aggregate fields count as read; see QueryOptions.access */
+    access?: AccessPolicy;
+}
+
+export interface TimeSeriesQueryOptions<TMappings extends FieldMappings = FieldMappings, TOperators extends string = never>
+    extends Omit<AggregateQueryOptions<TMappings, TOperators>, 'timeBucket' | 'groupBy' | 'grouping' | 'groupingSets' | 'having' | 'sort' | 'limit' | 'offset'> {
+    dateField: FieldName<TMappings>;
+    interval: TimeBucketInterval;
+    range: { start: string | Date, end: string | Date };
+    bucketAlias?: string;
 }
 
-export class QueryBuilder {
+/** Join field mappings are addressed as `<alias or table>.<field>` */
+type JoinedMappings<N extends string, J extends FieldMappings> = {
+    [K in keyof J & string as `${N}.${K}`]: J[K]
+};
+
+type LastSegment<S extends string> = S extends `${string}.${infer Rest}` ? LastSegment<Rest> : S;
+
+export class QueryBuilder<TMappings extends FieldMappings = FieldMappings, TOperators extends string = never> {
     private schema: string;
     private fieldMappings: Map<string, FieldMapping>;
     private validator: FieldValidator;
     private joins: Map<string, string>;
-    private withClauses: string[];
+    private withClauses: WithClauseEntry[];
+    private operators: Map<string, FilterOperation>;
+    private relations: Map<string, RelationDefinition>;
+    private scopes: QueryScopes;
     private queryCache: Map<string, { selectQuery: { text: string, values: any[] }, countQuery: { text: string, values: any[] } }>;
     private debug: boolean;
 
-    constructor(schema: string, fieldMappings: Record<string, FieldMapping>, debug: boolean = false) {
+    constructor(schema: string, fieldMappings: TMappings, debug: boolean = false) {
         this.schema = this.sanitizeIdentifier(schema);
         this.fieldMappings = new Map(Object.entries(fieldMappings));
         this.validator = new FieldValidator(this.fieldMappings);
         this.joins = new Map();
         this.withClauses = [];
+        this.operators = new Map();
+        this.relations = new Map();
+        this.scopes = new QueryScopes();
         this.queryCache = new Map();
         this.debug = debug;
     }
 
-    private sanitizeIdentifier(identifier: string): string {
-        const parts = identifier.split(/\s+/);
-        let tablePart = parts[0];
-        let alias: string | null = parts.length > 1 ? parts[1] : null;
+    getFieldMappings(): Map<string, FieldMapping> {
+        return this.fieldMappings;
+    }
 
-        const tableParts = tablePart.split('.');
-        const schema = tableParts.length > 1 ? tableParts[0] : null;
-        const table = tableParts.length > 1 ? tableParts[1] : tableParts[0];
+    private sanitizeIdentifier(identifier: string): string {
+        return SqlIdentifier.sanitize(identifier);
+    }
 
-        const identifierRegex = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+    /**
+     * Adds a join with a raw ON condition. Prefer join(), which resolves both sides through the field mappings.
+     */
+    addJoin(joinType: string, table: string, condition: string): this {
+        const normalizedType = joinType.trim().toUpperCase().replace(/\s+/g, ' ');
+        if (!RAW_JOIN_TYPES.includes(normalizedType)) {
+            throw new Error(`Invalid join type: ${joinType}`);
+        }
 
-        if (schema && !identifierRegex.test(schema)) {
-            throw new Error(`Invalid schema identifier: ${schema}`);
+        const sanitizedTable = this.sanitizeIdentifier(table);
+        const joinKey = `${normalizedType}:${sanitizedTable}`;
+        if (!this.joins.has(joinKey)) {
+            this.joins.set(joinKey, `${normalizedType} ${sanitizedTable} ON ${condition}`);
+            this.queryCache.clear();
         }
-        if (!identifierRegex.test(table)) {
-            throw new Error(`Invalid table identifier: ${table}`);
+        return this;
+    }
+
+    join<T extends string, A extends string = string, J extends FieldMappings = FieldMappings>(
+        definition: JoinDefinition & { table: T, alias?: A, fieldMappings?: J }
+    ): QueryBuilder<TMappings & JoinedMappings<string extends A ? LastSegment<T> : A, J>, TOperators> {
+        const { type, table, alias, on, fieldMappings = {} } = definition;
+
+        const joinType = String(type).toUpperCase() as JoinType;
+        if (!JOIN_TYPES.includes(joinType)) {
+            throw new Error(`Invalid join type: ${type}`);
         }
-        if (alias && !identifierRegex.test(alias)) {
+        if (alias && !SqlIdentifier.isValid(alias)) {
             throw new Error(`Invalid alias identifier: ${alias}`);
         }
+        if (!on || on.length === 0) {
+            throw new Error(`Join on ${table} requires at least one ON condition`);
+        }
 
-        const sanitizedTable = schema ? `${schema}.${table}` : table;
-        return alias ? `${sanitizedTable} ${alias}` : sanitizedTable;
+        const sanitizedTable = this.sanitizeIdentifier(table);
+        const namespace = alias || sanitizedTable.split('.').pop()!;
+        for (const [field, mapping] of Object.entries<FieldMapping>(fieldMappings)) {
+            this.fieldMappings.set(`${namespace}.${field}`, mapping);
+        }
+
+        const conditions = on.map(({ left, right }) => `${this.resolveJoinField(left)} = ${this.resolveJoinField(right)}`);
+        const target = alias ? `${sanitizedTable} ${alias}` : sanitizedTable;
+
+        this.joins.set(`${joinType}:${target}`, `${joinType} JOIN ${target} ON ${conditions.join(' AND ')}`);
+        this.queryCache.clear();
+        // Same builder; only its mapping type gains the joined fields
+        return this as unknown as QueryBuilder<TMappings & JoinedMappings<string extends A ? LastSegment<T> : A, J>, TOperators>;
     }
 
-    addJoin(joinType: string, table: string, condition: string): this {
-        const sanitizedTable = this.sanitizeIdentifier(table);
-        const joinKey = `${joinType}:${sanitizedTable}`;
-        if (!this.joins.has(joinKey)) {
-            this.joins.set(joinKey, `${joinType} ${sanitizedTable} ON ${condition}`);
+    /**
+     * Registers a related table that buildSelectQuery can `include`. Its rows are read through a
+     * correlated subquery rather than a join, so the parent rows are not multiplied.
+     */
+    addRelation(name: string, definition: RelationDefinition): this {
+        Relations.validate(name, definition, this.fieldMappings);
+        this.relations.set(name, definition);
+        this.queryCache.clear();
+        return this;
+    }
+
+    getRelations(): Map<string, RelationDefinition> {
+        return this.relations;
+    }
+
+    /**
+     * Adds conditions to every select, count, aggregate and time series query this builder builds,
+     * e.g. `addScope('tenant', { tenantId })` or `addScope('softDelete', { deletedAt: null })`.
+     * Adding a scope under an existing name replaces it.
+     */
+    addScope(name: string, conditions: ScopeConditions): this {
+        this.scopes.add(name, conditions, this.fieldMappings);
+        this.queryCache.clear();
+        return this;
+    }
+
+    /**
+     * Returns a builder without the named scopes, e.g. to list deleted rows. The original builder
+     * keeps its scopes; the two share joins, relations and operators.
+     */
+    unscoped(...names: string[]): QueryBuilder<TMappings, TOperators> {
+        const view: QueryBuilder<TMappings, TOperators> = Object.create(Object.getPrototypeOf(this));
+        Object.assign(view, this);
+        view.scopes = this.scopes.without(names);
+        return view;
+    }
+
+    getScopes(): string[] {
+        return this.scopes.names();
+    }
+
+    /** The scopes addScope adds to, for UpdateQueryBuilder and DeleteQueryBuilder to share */
+    getScopeSet(): QueryScopes {
+        return this.scopes;
+    }
+
+    private resolveJoinField(field: string): string {
+        const mapping = this.fieldMappings.get(field);
+        if (!mapping) {
+            throw new Error(`Invalid join field: ${field}`);
+        }
+        if (mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT')) {
+            throw new Error(`Cannot join on computed field: ${field}`);
+        }
+        return mapping.dbField;
+    }
+
+    private buildJoinClause(): string {
+        return this.joins.size > 0 ? ` ${Array.from(this.joins.values()).join(' ')}` : '';
+    }
+
+    addWithClause(name: string, query: WithClauseQuery, options: WithClauseOptions = {}): this {
+        const { columns = [] } = options;
+        for (const column of columns) {
+            if (!SqlIdentifier.isValid(column)) {
+                throw new Error(`Invalid column identifier: ${column}`);
+            }
+        }
+
+        let resolved: { text: string, values: any[] };
+        if (typeof query === 'string') {
+            resolved = { text: query, values: [] };
+        } else if ('builder' in query) {
+            resolved = query.builder.compileSelectQuery({ ...query.options, skipCount: true }, 'unpaged').selectQuery;
+        } else {
+            resolved = { text: query.text, values: query.values || [] };
         }
+
+        this.withClauses.push({ ...options, name: this.sanitizeIdentifier(name), text: resolved.text.trim(), values: resolved.values });
+        this.queryCache.clear();
         return this;
     }
 
-    addWithClause(name: string, query: string): this {
-        this.withClauses.push(`${this.sanitizeIdentifier(name)} AS (${query})`);
+    private buildWithClause(): { text: string, values: any[] } {
+        if (this.withClauses.length === 0) {
+            return { text: '', values: [] };
+        }
+
+        const values: any[] = [];
+        const clauses = this.withClauses.map(({ name, text, values: clauseValues, materialized, columns }) => {
+            const renumbered = this.renumberPlaceholders(text, values.length);
+            values.push(...clauseValues);
+
+            const columnList = columns && columns.length > 0 ? `(${columns.join(', ')})` : '';
+            const hint = materialized === undefined ? '' : materialized ? 'MATERIALIZED ' : 'NOT MATERIALIZED ';
+            return `${name}${columnList} AS ${hint}(${renumbered})`;
+        });
+
+        const recursive = this.withClauses.some(clause => clause.recursive) ? 'RECURSIVE ' : '';
+        return { text: `WITH ${recursive}${clauses.join(', ')} `, values };
+    }
+
+    private renumberPlaceholders(text: string, offset: number): string {
+        if (offset === 0) {
+            return text;
+        }
+        // Skip quoted literals so a '$1' inside a string is left untouched
+        return text.replace(/'(?:[^']|'')*'|\$(\d+)/g, (match, index) =>
+            index === undefined ? match : `$${Number(index) + offset}`
+        );
+    }
+
+    /**
+     * Registers a filter operator for this builder only. It takes precedence over a global operator of the same name.
+     */
+    registerOperator<O extends string>(config: FilterOperationConfig & { operator: O }): QueryBuilder<TMappings, TOperators | O> {
+        this.operators.set(config.operator, FilterOperation.fromConfig(config));
+        this.queryCache.clear();
         return this;
     }
 
-    private generateCacheKey({ tableName, fields, requiredFilters, sortField, sortDirection }: QueryOptions): string {
+    /** Parsed fields, sorts and filters are validated against the mappings, so the result keeps the builder's types */
+    parseQuery(input: string | Record<string, any>, base: QueryOptions<TMappings, TOperators>, options: QueryStringParserOptions = {}): QueryOptions<TMappings, TOperators> {
+        return new QueryStringParser(this.fieldMappings, options, this.operators).parse(input, base) as QueryOptions<TMappings, TOperators>;
+    }
+
+    private generateCacheKey({ tableName, fields, requiredFilters, queryParams, excludeFields, filter, search, windows, include, timeZone, sortField, sortDirection, sort, access }: QueryOptions): string {
         const normalizedFields = typeof fields === 'string'
             ? fields.split(',').map(f => f.trim())
             : Array.isArray(fields)
                 ? fields
                 : [];
-        return `${this.sanitizeIdentifier(tableName)}:${normalizedFields.join(',')}:${JSON.stringify(requiredFilters)}:${sortField}:${sortDirection}`;
+        // Filter values may be BigInt, which JSON.stringify rejects
+        const serialize = (value: unknown) => JSON.stringify(value, (_, v) => typeof v === 'bigint' ? { bigint: v.toString() } : v);
+        return `${this.sanitizeIdentifier(tableName)}:${this.scopes.cacheKey()}:${normalizedFields.join(',')}:${serialize(requiredFilters)}:${serialize(queryParams)}:${JSON.stringify(excludeFields)}:${serialize(filter)}:${JSON.stringify(search)}:${JSON.stringify(windows)}:${serialize(include)}:${timeZone}:${sortField}:${sortDirection}:${JSON.stringify(sort)}:${JSON.stringify(access)}`;
+    }
+
+    private appendCondition(whereClause: string, condition: string): string {
+        return whereClause ? `${whereClause} AND ${condition}` : `WHERE ${condition}`;
+    }
+
+    private checkAccess(access: FieldAccessPolicy | null, uses: [string | null | undefined, FieldUsage][], errors: ErrorCollector = new ErrorCollector()): void {
+        if (!access) {
+            return;
+        }
+        for (const [field, usage] of uses) {
+            if (field && field !== '*') {
+                errors.attempt(() => access.check(field, usage), undefined);
+            }
+        }
+    }
+
+    getCursorKeys(sortField: string | null = null): string[] {
+        if (!this.fieldMappings.has('id')) {
+            throw new Error('Cursor pagination requires an id field mapping');
+        }
+        return sortField && sortField !== 'id' ? [sortField, 'id'] : ['id'];
+    }
+
+    /**
+     * Keyset predicate and ORDER BY for cursor pagination. A sort field not mapped as `required`
+     * may hold NULLs, which a row comparison never matches, so those rows are ordered last (first
+     * when paging backwards) and compared with explicit IS NULL checks.
+     */
+    private buildKeysetPagination(sortField: string | null, sortDirection: 'ASC' | 'DESC', cursor: string | null, paramOffset: number): { condition: string, orderBy: string, values: any[] } {
+        const keys = this.getCursorKeys(sortField);
+        const columns = keys.map(key => this.validator.validateSortField(key)!);
+        const decoded = cursor ? PaginationBuilder.decodeCursor(cursor) : null;
+
+        if (decoded && decoded.keys.join(',') !== keys.join(',')) {
+            throw new InvalidCursorError('Pagination cursor does not match the requested sort field', { value: cursor });
+        }
+
+        const requestedDirection = sortDirection.toUpperCase();
+        const direction = decoded?.backward
+            ? (requestedDirection === 'DESC' ? 'ASC' : 'DESC')
+            : requestedDirection;
+        const nullable = keys.length > 1 && this.fieldMappings.get(keys[0])?.required !== true;
+        const nulls = decoded?.backward ? 'FIRST' : 'LAST';
+        const orderBy = `ORDER BY ${columns.map((column, index) =>
+            `${column} ${direction}${nullable && index === 0 ? ` NULLS ${nulls}` : ''}`).join(', ')}`;
+
+        if (!decoded) {
+            return { condition: '', orderBy, values: [] };
+        }
+
+        const comparator = direction === 'DESC' ? '<' : '>';
+        const placeholder = (index: number) => `$${paramOffset + index + 1}`;
+        if (columns.length === 1) {
+            return { condition: `${columns[0]} ${comparator} ${placeholder(0)}`, orderBy, values: decoded.values };
+        }
+
+        const [sortColumn, idColumn] = columns;
+        const [sortValue, idValue] = decoded.values;
+        if (nullable && (sortValue === null || sortValue === undefined)) {
+            // The cursor sits among the NULL rows: the rest of them follow it, then (paging backwards) every non-NULL row
+            const withinNulls = `${sortColumn} IS NULL AND ${idColumn} ${comparator} ${placeholder(0)}`;
+            const condition = nulls === 'LAST' ? withinNulls : `((${withinNulls}) OR ${sortColumn} IS NOT NULL)`;
+            return { condition, orderBy, values: [idValue] };
+        }
+
+        const rowComparison = `(${columns.join(', ')}) ${comparator} (${placeholder(0)}, ${placeholder(1)})`;
+        const condition = nullable && nulls === 'LAST' ? `(${rowComparison} OR ${sortColumn} IS NULL)` : rowComparison;
+        return { condition, orderBy, values: [sortValue, idValue] };
     }
 
-    buildSelectQuery(config: QueryOptions): { selectQuery: { text: string, values: any[] }, countQuery: { text: string, values: any[] } } {
+    buildSelectQuery(config: QueryOptions<TMappings, TOperators>): { selectQuery: { text: string, values: any[] }, countQuery: { text: string, values: any[] } | null } {
+        return this.compileSelectQuery(config, 'page');
+    }
+
+    /**
+     * `SELECT 1 ... LIMIT 1` over the joins, filters, search condition and scopes a select with the
+     * same options would use. Fields, sorting and pagination are ignored, so no mapping is required.
+     */
+    buildExistsQuery(config: QueryOptions<TMappings, TOperators>): { text: string, values: any[] } {
+        return this.compileSelectQuery({ ...config, skipCount: true }, 'exists').selectQuery;
+    }
+
+    private compileSelectQuery(config: QueryOptions<TMappings, TOperators>, shape: SelectShape): { selectQuery: { text: string, values: any[] }, countQuery: { text: string, values: any[] } | null } {
         const {
             tableName,
             fields = [],
             requiredFilters = {},
             queryParams = {},
+            filter,
+            search,
+            windows = [],
+            include,
+            timeZone = 'UTC',
             excludeFields = [],
             limit = 10,
             offset = 0,
             sortField = null,
-            sortDirection = 'DESC'
+            sortDirection = 'DESC',
+            sort = [],
+            pagination = 'offset',
+            cursor = null,
+            skipCount = false,
+            collectErrors = false,
+            access
         } = config;
 
-        const cacheKey = this.generateCacheKey({ tableName, fields, requiredFilters, sortField, sortDirection });
-        if (this.queryCache.has(cacheKey)) {
+        const errors = new ErrorCollector(collectErrors);
+        const isPage = shape === 'page';
+        const selectsFields = shape !== 'exists';
+        const isCursorMode = isPage && pagination === 'cursor';
+        if (isCursorMode && sort.length > 0) {
+            errors.report(new InvalidQueryError('Cursor pagination supports a single sortField; use sortField instead of sort'));
+        }
+
+        const sanitizedTableName = errors.attempt(() => this.sanitizeIdentifier(tableName), tableName);
+        const validTimeZone = errors.attempt(() => DateFilterUtils.validateTimeZone(timeZone), 'UTC');
+        const cacheKey = errors.attempt(
+            () => this.generateCacheKey({ tableName, fields, requiredFilters, queryParams, excludeFields, filter, search, windows, include, timeZone, sortField, sortDirection, sort, access }),
+            null
+        );
+        if (isPage && !isCursorMode && cacheKey && this.queryCache.has(cacheKey)) {
             const cached = this.queryCache.get(cacheKey)!;
             const selectQuery = { text: cached.selectQuery.text, values: [...cached.selectQuery.values, limit, offset] };
-            const countQuery = { text: cached.countQuery.text, values: [...cached.countQuery.values] };
+            const countQuery = skipCount ? null : { text: cached.countQuery.text, values: [...cached.countQuery.values] };
             if (this.debug) {
                 console.log('DEBUG: Cached Select Query:', selectQuery);
                 console.log('DEBUG: Cached Count Query:', countQuery);
@@ -110,104 +495,257 @@ export class QueryBuilder {
             ? fields.split(',').map(f => f.trim())
             : fields;
 
-        const selectedFields = this.validator.validateFields(requestedFields);
-        const validSortField = this.validator.validateSortField(sortField);
-        const orderBy = validSortField 
-            ? `ORDER BY ${validSortField} ${sortDirection.toUpperCase()}`
-            : `ORDER BY ${selectedFields[0]} ${sortDirection.toUpperCase()}`;
+        const accessPolicy = access ? new FieldAccessPolicy(this.fieldMappings, access) : null;
+        const permittedFields = accessPolicy && selectsFields
+            ? errors.attempt(() => accessPolicy.readableFields(requestedFields), requestedFields)
+            : requestedFields;
+        this.checkAccess(accessPolicy, [
+            [sortField, 'sort'],
+            ...sort.map(({ field }): [string, FieldUsage] => [field, 'sort']),
+            ...windows.flatMap(({ field, partitionBy = [], orderBy = [] }): [string | undefined, FieldUsage][] => [
+                [field, 'read'],
+                ...partitionBy.map((partitionField): [string, FieldUsage] => [partitionField, 'read']),
+                ...orderBy.map(({ field: orderField }): [string, FieldUsage] => [orderField, 'sort'])
+            ]),
+            [search?.field, 'filter'],
+            [search?.headline?.field, 'read']
+        ], errors);
+
+        // Cursors are read from the keyset columns, so they are selected even when not requested
+        const cursorKeys = isCursorMode && permittedFields.length > 0 ? this.getCursorKeys(sortField) : [];
+        cursorKeys.forEach(key => errors.attempt(() => accessPolicy?.checkCursorKey(key), undefined));
+        const selectableFields = [...permittedFields, ...cursorKeys.filter(key => !permittedFields.includes(key))];
+        const resolvedFields = selectsFields ? errors.attempt(() => this.validator.resolveFields(selectableFields), []) : [];
+        const selectedFields = resolvedFields.map(({ field, expression }) => SelectAlias.select(expression, field));
+        const validSortField = isPage ? errors.attempt(() => this.validator.validateSortField(sortField), null) : null;
+        const validSortDirection = isPage ? errors.attempt(() => this.validator.validateSortDirection(sortDirection), 'DESC') : 'DESC';
+
+        const withQuery = this.buildWithClause();
+        const searchClause = errors.attempt(() => search ? FullTextSearch.build(search, this.fieldMappings, withQuery.values.length) : null, null);
+        if (isCursorMode && searchClause?.orderBy) {
+            errors.report(new InvalidQueryError('Cursor pagination cannot order by search rank; set orderByRank to false'));
+        }
 
+        const orderTerms = isPage ? errors.attempt(() => sort.length > 0
+            ? this.validator.validateSortSpec(sort)
+            : [`${validSortField || resolvedFields[0].expression} ${validSortDirection}`], []) : [];
+        const orderBy = `ORDER BY ${[...(searchClause?.orderBy ? [searchClause.orderBy] : []), ...orderTerms].join(', ')}`;
+        const windowColumns = selectsFields ? errors.attempt(() => WindowFunctions.build(windows, this.validator), []) : [];
+
+        const searchValues = searchClause?.values || [];
         const filterBuilder = new FilterConditionBuilder(this.fieldMappings, new Map([
             ['emailSubject', (value: string) => value.toLowerCase().trim()]
-        ]));
+        ]), withQuery.values.length + searchValues.length, this.operators, validTimeZone);
         filterBuilder
+            .collectErrors(errors)
+            .restrictAccess(accessPolicy)
             .addRequiredConditions(requiredFilters)
-            .addDynamicFilters(queryParams, excludeFields);
+            .addDynamicFilters(queryParams, excludeFields)
+            .addFilterTree(filter);
+        this.scopes.apply(filterBuilder);
 
         const filters = filterBuilder.build();
-        const withClause = this.withClauses.length > 0 
-            ? `WITH ${this.withClauses.join(', ')} `
-            : '';
-        const joinClause = Array.from(this.joins.values()).join(' ');
-
-        const sanitizedTableName = this.sanitizeIdentifier(tableName);
-
-        const selectQuery = {
-            text: `
+        const whereClause = searchClause ? this.appendCondition(filters.text, searchClause.condition) : filters.text;
+        const withClause = withQuery.text;
+        const baseValues = [...withQuery.values, ...searchValues, ...filters.values];
+        const joinClause = this.buildJoinClause();
+
+        const keyset = isCursorMode
+            ? errors.attempt(() => this.buildKeysetPagination(sortField, validSortDirection, cursor, baseValues.length), { condition: '', orderBy: '', values: [] })
+            : null;
+        // Headline options and relation parameters only appear in the select list, so they are bound
+        // after every value the count query shares with it
+        const selectParamOffset = baseValues.length + (keyset?.values.length || 0);
+        const headline = errors.attempt(
+            () => selectsFields && search && searchClause ? FullTextSearch.headline(search, this.fieldMappings, searchClause, selectParamOffset) : null,
+            null
+        );
+        const headlineValues = headline?.values || [];
+        const relationContext = { schema: this.schema, operators: this.operators, timeZone: validTimeZone, role: accessPolicy?.role };
+        const includes = errors.attempt(
+            () => selectsFields && include ? Relations.build(include, this.relations, this.fieldMappings, relationContext, selectParamOffset + headlineValues.length) : null,
+            null
+        );
+        errors.throwIfErrors();
+
+        const selectList = [
+            ...selectedFields,
+            ...(searchClause?.columns || []),
+            ...(headline?.columns || []),
+            ...windowColumns,
+            ...(includes?.columns || [])
+        ].join(', ');
+        const selectOnlyValues = [...headlineValues, ...(includes?.values || [])];
+
+        let selectQuery: { text: string, values: any[] };
+        if (shape === 'exists') {
+            selectQuery = {
+                text: `
                 ${withClause}
-                SELECT ${selectedFields.join(', ')}
+                SELECT 1
                 FROM ${this.schema}.${sanitizedTableName}${joinClause}
-                ${filters.text}
+                ${whereClause}
+                LIMIT 1
+            `,
+                values: baseValues
+            };
+        } else if (shape === 'unpaged') {
+            selectQuery = {
+                text: `
+                ${withClause}
+                SELECT ${selectList}
+                FROM ${this.schema}.${sanitizedTableName}${joinClause}
+                ${whereClause}
+            `,
+                values: [...baseValues, ...selectOnlyValues]
+            };
+        } else if (keyset) {
+            const keysetWhereClause = keyset.condition ? this.appendCondition(whereClause, keyset.condition) : whereClause;
+            const keysetValues = [...baseValues, ...keyset.values, ...selectOnlyValues];
+
+            selectQuery = {
+                text: `
+                ${withClause}
+                SELECT ${selectList}
+                FROM ${this.schema}.${sanitizedTableName}${joinClause}
+                ${keysetWhereClause}
+                ${keyset.orderBy}
+                LIMIT $${keysetValues.length + 1}
+            `,
+                values: [...keysetValues, limit + 1]
+            };
+        } else {
+            selectQuery = {
+                text: `
+                ${withClause}
+                SELECT ${selectList}
+                FROM ${this.schema}.${sanitizedTableName}${joinClause}
+                ${whereClause}
                 ${orderBy}
-                LIMIT $${filters.values.length + 1} OFFSET $${filters.values.length + 2}
+                LIMIT $${baseValues.length + selectOnlyValues.length + 1} OFFSET $${baseValues.length + selectOnlyValues.length + 2}
             `,
-            values: [...filters.values, limit, offset]
-        };
+                values: [...baseValues, ...selectOnlyValues, limit, offset]
+            };
+        }
 
         const countQuery = {
             text: `
                 ${withClause}
                 SELECT COUNT(1) AS count
                 FROM ${this.schema}.${sanitizedTableName}${joinClause}
-                ${filters.text}
+                ${whereClause}
             `,
-            values: filters.values
+            values: baseValues
         };
 
-        this.queryCache.set(cacheKey, { selectQuery, countQuery });
+        // Relative date filters resolve against the current time, so their values cannot be reused
+        if (isPage && !isCursorMode && cacheKey && !filterBuilder.isVolatile()) {
+            this.queryCache.set(cacheKey, {
+                selectQuery: { text: selectQuery.text, values: [...baseValues, ...selectOnlyValues] },
+                countQuery
+            });
+        }
 
         if (this.debug) {
             console.log('DEBUG: Generated Select Query:', selectQuery);
-            console.log('DEBUG: Generated Count Query:', countQuery);
+            console.log('DEBUG: Generated Count Query:', skipCount ? null : countQuery);
         }
 
-        return { selectQuery, countQuery };
+        return { selectQuery, countQuery: skipCount ? null : countQuery };
     }
 
-    buildAggregateQuery(config: {
-        tableName: string,
-        aggregates?: Record<string, { function: string, field: string }>,
-        groupBy?: string[],
-        requiredFilters?: Record<string, any>,
-        queryParams?: Record<string, any>,
-        excludeFields?: string[]
-    }): { text: string, values: any[] } {
+    buildAggregateQuery(config: AggregateQueryOptions<TMappings, TOperators>): { text: string, values: any[] } {
         const {
             tableName,
             aggregates = {},
+            timeBucket,
             groupBy = [],
+            grouping,
+            groupingSets,
             requiredFilters = {},
             queryParams = {},
-            excludeFields = []
+            filter,
+            having,
+            sort = [],
+            limit,
+            offset,
+            excludeFields = [],
+            timeZone = 'UTC',
+            access
         } = config;
 
-        const aggregateFields = Object.entries(aggregates).map(([alias, config]) => {
-            const { function: func, field } = config;
-            const dbField = this.fieldMappings.get(field)?.dbField || field;
-            return `${func}(${dbField}) AS ${this.sanitizeIdentifier(alias)}`;
-        });
+        const accessPolicy = access ? new FieldAccessPolicy(this.fieldMappings, access) : null;
+        this.checkAccess(accessPolicy, [
+            ...[...groupBy, ...(groupingSets || []).flat(), timeBucket?.field].map((field): [string | undefined, FieldUsage] => [field, 'read']),
+            ...Object.values(aggregates).map(({ field }): [string, FieldUsage] => [field, 'read']),
+            ...sort.filter(({ field }) => !(field in aggregates)).map(({ field }): [string, FieldUsage] => [field, 'sort'])
+        ]);
 
-        const groupByFields = groupBy.map(field => {
-            const mapping = this.fieldMappings.get(field);
-            return mapping ? mapping.dbField : field;
-        });
+        const withQuery = this.buildWithClause();
+        const values = [...withQuery.values];
 
-        const filterBuilder = new FilterConditionBuilder(this.fieldMappings);
+        // Aggregate FILTER clauses sit in the select list, so their values are bound before the WHERE clause
+        const aggregateExpressions = new Map<string, string>();
+        for (const [alias, definition] of Object.entries(aggregates)) {
+            aggregateExpressions.set(alias, this.buildAggregateExpression(definition, values, timeZone, accessPolicy));
+        }
+        const aggregateFields = Array.from(aggregateExpressions, ([alias, expression]) => `${expression} AS ${this.sanitizeIdentifier(alias)}`);
+
+        const bucket = timeBucket ? this.buildTimeBucket({ timeZone, ...timeBucket }) : null;
+        const groupFields = Array.from(new Set([...groupBy, ...(groupingSets || []).flat()]));
+        const groupByFields = [
+            ...(bucket ? [`${bucket.expression} AS ${bucket.alias}`] : []),
+            ...groupFields.map(field => SelectAlias.select(this.validator.validateExpressionField(field, 'group by'), field))
+        ];
+        const groupByClause = this.buildGroupByClause(groupBy, grouping, groupingSets, bucket ? [bucket.expression] : []);
+
+        const filterBuilder = new FilterConditionBuilder(this.fieldMappings, new Map(), values.length, this.operators, timeZone);
         filterBuilder
+            .restrictAccess(accessPolicy)
             .addRequiredConditions(requiredFilters)
-            .addDynamicFilters(queryParams, excludeFields);
+            .addDynamicFilters(queryParams, excludeFields)
+            .addFilterTree(filter);
+        this.scopes.apply(filterBuilder);
 
         const filters = filterBuilder.build();
-        const withClause = this.withClauses.length > 0 
-            ? `WITH ${this.withClauses.join(', ')} `
-            : '';
-        const joinClause = Array.from(this.joins.values()).join(' ');
+        values.push(...filters.values);
+
+        const havingMappings = new Map<string, FieldMapping>(
+            Array.from(aggregateExpressions, ([alias, expression]) => [alias, { dbField: expression, type: 'number' }])
+        );
+        const havingConditions = new FilterConditionBuilder(havingMappings, new Map(), values.length, this.operators, timeZone)
+            .addFilterTree(having)
+            .build();
+        values.push(...havingConditions.values);
+        const havingClause = havingConditions.text.replace(/^WHERE /, 'HAVING ');
+
+        const orderTerms = sort.map(({ field, direction = 'ASC', nulls }) => {
+            if (aggregateExpressions.has(field) || (bucket && bucket.alias === field)) {
+                return this.validator.formatSortTerm(this.sanitizeIdentifier(field), direction, nulls);
+            }
+            if (groupFields.includes(field)) {
+                return this.validator.formatSortTerm(this.validator.validateExpressionField(field, 'group by'), direction, nulls);
+            }
+            throw new InvalidSortFieldError(`Invalid sort field: ${field}`, { field });
+        });
+        const orderByClause = orderTerms.length > 0 ? `ORDER BY ${orderTerms.join(', ')}` : '';
+
+        let limitClause = '';
+        if (limit !== undefined) {
+            values.push(limit);
+            limitClause = `LIMIT $${values.length}`;
+        }
+        if (offset !== undefined) {
+            values.push(offset);
+            limitClause = `${limitClause} OFFSET $${values.length}`.trim();
+        }
+
+        const withClause = withQuery.text;
+        const joinClause = this.buildJoinClause();
 
         const sanitizedTableName = this.sanitizeIdentifier(tableName);
 
         const selectFields = [...groupByFields, ...aggregateFields];
-        const groupByClause = groupByFields.length > 0 
-            ? `GROUP BY ${groupByFields.join(', ')}`
-            : '';
 
         const query = {
             text: `
@@ -216,8 +754,11 @@ export class QueryBuilder {
                 FROM ${this.schema}.${sanitizedTableName}${joinClause}
                 ${filters.text}
                 ${groupByClause}
+                ${havingClause}
+                ${orderByClause}
+                ${limitClause}
             `,
-            values: filters.values
+            values
         };
 
         if (this.debug) {
@@ -226,4 +767,127 @@ export class QueryBuilder {
 
         return query;
     }
+
+    private buildAggregateExpression(definition: AggregateDefinition, values: any[], timeZone: string, accessPolicy: FieldAccessPolicy | null): string {
+        const func = String(definition.function).toUpperCase();
+        if (!AGGREGATE_FUNCTIONS.includes(func)) {
+            throw new InvalidQueryError(`Unsupported aggregate function: ${definition.function}`, { value: definition.function, allowed: AGGREGATE_FUNCTIONS });
+        }
+
+        if (definition.field === '*' && (func !== 'COUNT' || definition.distinct)) {
+            throw new InvalidQueryError('Only COUNT without DISTINCT accepts *', { value: definition.function });
+        }
+        const argument = definition.field === '*' ? '*' : this.validator.validateExpressionField(definition.field, 'aggregate');
+        const expression = `${func}(${definition.distinct ? 'DISTINCT ' : ''}${argument})`;
+
+        if (!definition.filter) {
+            return expression;
+        }
+        const aggregateFilter = new FilterConditionBuilder(this.fieldMappings, new Map(), values.length, this.operators, timeZone)
+            .restrictAccess(accessPolicy)
+            .addFilterTree(definition.filter)
+            .build();
+        values.push(...aggregateFilter.values);
+        return aggregateFilter.text ? `${expression} FILTER (${aggregateFilter.text})` : expression;
+    }
+
+    private buildGroupByClause(groupBy: string[], grouping?: 'ROLLUP' | 'CUBE', groupingSets?: string[][], leading: string[] = []): string {
+        const toList = (fields: string[]) =>
+            [...leading, ...fields.map(field => this.validator.validateExpressionField(field, 'group by'))].join(', ');
+
+        if (groupingSets) {
+            if (grouping) {
+                throw new InvalidQueryError('Use either grouping or groupingSets, not both');
+            }
+            return `GROUP BY GROUPING SETS (${groupingSets.map(set => `(${toList(set)})`).join(', ')})`;
+        }
+
+        if (grouping) {
+            if (grouping !== 'ROLLUP' && grouping !== 'CUBE') {
+                throw new InvalidQueryError(`Invalid grouping: ${grouping}`, { value: grouping, allowed: ['ROLLUP', 'CUBE'] });
+            }
+            if (groupBy.length === 0) {
+                throw new InvalidQueryError(`${grouping} requires groupBy fields`, { value: grouping });
+            }
+            return `GROUP BY ${grouping} (${toList(groupBy)})`;
+        }
+
+        return groupBy.length > 0 || leading.length > 0 ? `GROUP BY ${toList(groupBy)}` : '';
+    }
+
+    private buildTimeBucket({ field, interval, timeZone = 'UTC', alias = 'bucket' }: TimeBucket): { expression: string, alias: string } {
+        const mapping = this.fieldMappings.get(field);
+        if (!mapping || (mapping.type !== 'date' && mapping.type !== 'timestamp')) {
+            throw new InvalidFieldError(`Time bucket requires a date or timestamp field: ${field}`, { field, usage: 'time bucket' });
+        }
+        return {
+            expression: DateFilterUtils.truncateExpression(mapping.dbField, mapping.type, interval, timeZone),
+            alias: this.sanitizeIdentifier(alias)
+        };
+    }
+
+    /**
+     * Aggregates per time bucket over [range.start, range.end) and LEFT JOINs the result onto
+     * generate_series so empty buckets still produce a row. COUNT and SUM are filled with 0.
+     */
+    buildTimeSeriesQuery(config: TimeSeriesQueryOptions<TMappings, TOperators>): { text: string, values: any[] } {
+        const { dateField, interval, range, timeZone = 'UTC', bucketAlias = 'bucket', filter, ...aggregateOptions } = config;
+        const mapping = this.fieldMappings.get(dateField);
+        if (!mapping || (mapping.type !== 'date' && mapping.type !== 'timestamp')) {
+            throw new InvalidFieldError(`Time series requires a date or timestamp field: ${dateField}`, { field: dateField, usage: 'time series' });
+        }
+        if (!range || range.start === undefined || range.end === undefined) {
+            throw new InvalidQueryError('Time series requires a range with start and end', { value: range });
+        }
+
+        const alias = this.sanitizeIdentifier(bucketAlias);
+        // Both bounds are read in the zone the buckets use and bound as instants (calendar dates for
+        // date fields), so neither the filter nor the series depends on the session time zone
+        const validTimeZone = DateFilterUtils.validateTimeZone(timeZone);
+        const instants = { start: DateFilterUtils.toInstant(range.start, validTimeZone), end: DateFilterUtils.toInstant(range.end, validTimeZone) };
+        const seriesBounds = mapping.type === 'date' ? DateFilterUtils.toDateOnlyRange(instants, validTimeZone) : instants;
+        const dataQuery = this.buildAggregateQuery({
+            ...aggregateOptions,
+            filter: {
+                and: [
+                    { field: dateField, op: 'dateRange', value: instants },
+                    ...(filter ? [filter] : [])
+                ]
+            } as TypedFilterNode<TMappings, TOperators>,
+            timeBucket: { field: dateField, interval, timeZone, alias },
+            timeZone
+        });
+
+        const values = [...dataQuery.values, seriesBounds.start, seriesBounds.end];
+        const seriesStart = DateFilterUtils.truncateExpression(`$${values.length - 1}`, mapping.type, interval, timeZone);
+        const seriesEnd = DateFilterUtils.localTimestamp(`$${values.length}`, mapping.type, timeZone);
+        const bucketColumn = mapping.type === 'date' ? 'series.bucket' : `series.bucket AT TIME ZONE '${timeZone}'`;
+
+        const aggregateColumns = Object.entries(config.aggregates || {}).map(([name, definition]) => {
+            const column = this.sanitizeIdentifier(name);
+            const fill = ['COUNT', 'SUM'].includes(String(definition.function).toUpperCase());
+            return fill ? `COALESCE(data.${column}, 0) AS ${column}` : `data.${column} AS ${column}`;
+        });
+
+        const query = {
+            text: `
+                WITH data AS (${dataQuery.text}),
+                series AS (
+                    SELECT bucket FROM generate_series(${seriesStart}, ${seriesEnd}, interval '1 ${interval}') AS bucket
+                    WHERE bucket < ${seriesEnd}
+                )
+                SELECT ${[`${bucketColumn} AS ${alias}`, ...aggregateColumns].join(', ')}
+                FROM series
+                LEFT JOIN data ON data.${alias} = series.bucket
+                ORDER BY series.bucket
+            `,
+            values
+        };
+
+        if (this.debug) {
+            console.log('DEBUG: Generated Time Series Query:', query);
+        }
+
+        return query;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,264 @@
+import { FieldMapping, SortSpec } from './fieldMapping';
+import { FilterOperation, FilterOperations } from './filterOperations';
+import { FilterConditionBuilder } from './filterConditionBuilder';
+import { QueryOptions } from './queryBuilder';
+import { JsonPath } from './jsonPath';
+import { ValueCoercion } from './valueCoercion';
+import { QueryBuilderError } from './errors';
+
+export interface QueryParseIssue {
+    param: string;
+    code: 'UNKNOWN_FIELD' | 'UNKNOWN_OPERATOR' | 'INVALID_VALUE' | 'LIMIT_EXCEEDED' | 'OFFSET_EXCEEDED';
+    message: string;
+    field?: string;
+    operator?: string;
+    value?: any;
+}
+
+export class QueryParseError extends QueryBuilderError {
+    issues: QueryParseIssue[];
+
+    constructor(issues: QueryParseIssue[]) {
+        super('INVALID_QUERY_PARAMS', `Invalid query parameters: ${issues.map(issue => issue.message).join('; ')}`);
+        this.name = 'QueryParseError';
+        this.issues = issues;
+    }
+}
+
+export interface QueryStringParserOptions {
+    maxLimit?: number;
+    maxOffset?: number;
+}
+
+const RESERVED_PARAMS = ['fields', 'limit', 'offset', 'sort', 'sortField', 'sortDirection', 'page', 'filter'];
+
+export class QueryStringParser {
+    private fieldMappings: Map<string, FieldMapping>;
+    private maxLimit: number;
+    private maxOffset: number;
+    private operators: Map<string, FilterOperation>;
+    private issues: QueryParseIssue[];
+
+    constructor(fieldMappings: Map<string, FieldMapping>, options: QueryStringParserOptions = {}, operators: Map<string, FilterOperation> = new Map()) {
+        this.fieldMappings = fieldMappings;
+        this.operators = operators;
+        this.maxLimit = options.maxLimit ?? 100;
+        this.maxOffset = options.maxOffset ?? 10000;
+        this.issues = [];
+    }
+
+    parse(input: string | Record<string, any>, base: QueryOptions): QueryOptions {
+        this.issues = [];
+        const params = typeof input === 'string' ? this.parseQueryString(input) : this.flattenParams(input);
+        const options: QueryOptions = { ...base, queryParams: { ...(base.queryParams || {}) } };
+
+        const pageSize = params.get('page[size]') ?? params.get('limit');
+        if (pageSize !== undefined) {
+            options.limit = this.parseInteger(params.has('page[size]') ? 'page[size]' : 'limit', pageSize, 1, this.maxLimit, 'LIMIT_EXCEEDED');
+        }
+
+        const limit = options.limit ?? 10;
+        if (params.has('page[number]')) {
+            const pageNumber = this.parseInteger('page[number]', params.get('page[number]'), 1, Number.MAX_SAFE_INTEGER, 'INVALID_VALUE');
+            if (pageNumber !== undefined) {
+                options.offset = this.checkOffset('page[number]', (pageNumber - 1) * limit);
+            }
+        } else {
+            const offset = params.get('page[offset]') ?? params.get('offset');
+            if (offset !== undefined) {
+                options.offset = this.parseInteger(params.has('page[offset]') ? 'page[offset]' : 'offset', offset, 0, this.maxOffset, 'OFFSET_EXCEEDED');
+            }
+        }
+
+        if (params.has('fields')) {
+            options.fields = this.parseFields(params.get('fields'));
+        }
+
+        this.parseSort(params, options);
+
+        for (const [key, value] of params) {
+            if (this.isEmpty(value)) {
+                continue;
+            }
+
+            const filterMatch = key.match(/^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/);
+            if (filterMatch) {
+                const [, field, operator] = filterMatch;
+                this.addFilter(options.queryParams!, key, field, operator, value);
+                continue;
+            }
+
+            if (RESERVED_PARAMS.includes(key) || key.startsWith('page[')) {
+                continue;
+            }
+
+            if (this.fieldMappings.has(key)) {
+                this.addFilter(options.queryParams!, key, key, undefined, value);
+                continue;
+            }
+
+            const operatorMatch = key.match(/^(.+)_([a-zA-Z]+)$/);
+            if (operatorMatch) {
+                this.addFilter(options.queryParams!, key, operatorMatch[1], operatorMatch[2], value);
+            } else if (this.hasField(key)) {
+                this.addFilter(options.queryParams!, key, key, undefined, value);
+            } else {
+                this.addIssue({ param: key, code: 'UNKNOWN_FIELD', field: key, message: `Unknown filter field: ${key}` });
+            }
+        }
+
+        if (this.issues.length > 0) {
+            throw new QueryParseError(this.issues);
+        }
+
+        return options;
+    }
+
+    private parseQueryString(query: string): Map<string, any> {
+        const params = new Map<string, any>();
+        const searchParams = new URLSearchParams(query.startsWith('?') ? query.slice(1) : query);
+
+        for (const [key, value] of searchParams) {
+            if (params.has(key)) {
+                const existing = params.get(key);
+                params.set(key, Array.isArray(existing) ? [...existing, value] : [existing, value]);
+            } else {
+                params.set(key, value);
+            }
+        }
+
+        return params;
+    }
+
+    private flattenParams(input: Record<string, any>, prefix: string = '', params: Map<string, any> = new Map()): Map<string, any> {
+        for (const [key, value] of Object.entries(input)) {
+            const path = prefix ? `${prefix}[${key}]` : key;
+            if (value !== null && typeof value === 'object' && !Array.isArray(value) && (prefix || ['filter', 'page'].includes(key))) {
+                this.flattenParams(value, path, params);
+            } else {
+                params.set(path, value);
+            }
+        }
+        return params;
+    }
+
+    private addFilter(queryParams: Record<string, any>, param: string, field: string, operator: string | undefined, value: any): void {
+        const mapping = JsonPath.resolve(this.fieldMappings, field);
+        if (!mapping) {
+            this.addIssue({ param, code: 'UNKNOWN_FIELD', field, operator, message: `Unknown filter field: ${field}` });
+            return;
+        }
+
+        if (operator && !this.operators.has(operator) && !FilterOperations.has(operator)) {
+            this.addIssue({ param, code: 'UNKNOWN_OPERATOR', field, operator, message: `Unsupported filter operation: ${operator}` });
+            return;
+        }
+
+        const key = operator ? `${field}_${operator}` : field;
+        queryParams[key] = this.coerceValue(param, field, operator, mapping, value);
+    }
+
+    private coerceValue(param: string, field: string, operator: string | undefined, mapping: FieldMapping, value: any): any {
+        if (typeof value !== 'string') {
+            return value;
+        }
+
+        const resolved = operator ?? FilterConditionBuilder.defaultOperator(mapping.type);
+        const operation = this.operators.get(resolved) ?? FilterOperations.get(resolved);
+        // Booleans are normalised even though the default isTrue operator ignores its value
+        const operand = operation.operand ?? (mapping.type === 'boolean' ? 'value' : undefined);
+        try {
+            return ValueCoercion.coerceOperand(operand, value, mapping, { field, operator: resolved });
+        } catch (error) {
+            this.addIssue({ param, code: 'INVALID_VALUE', field, operator, value, message: (error as Error).message });
+            return value;
+        }
+    }
+
+    private parseFields(value: any): string[] {
+        const fields = (Array.isArray(value) ? value : String(value).split(','))
+            .map((field: string) => field.trim())
+            .filter(Boolean);
+
+        for (const field of fields) {
+            if (!this.hasField(field)) {
+                this.addIssue({ param: 'fields', code: 'UNKNOWN_FIELD', field, message: `Unknown field: ${field}` });
+            }
+        }
+
+        return fields;
+    }
+
+    private parseSort(params: Map<string, any>, options: QueryOptions): void {
+        if (params.has('sort')) {
+            const entries = String(params.get('sort')).split(',').map(entry => entry.trim()).filter(Boolean);
+            const sort: SortSpec[] = entries.map(entry => ({
+                field: entry.replace(/^[-+]/, ''),
+                direction: entry.startsWith('-') ? 'DESC' : 'ASC'
+            }));
+
+            for (const { field } of sort) {
+                if (!this.hasField(field)) {
+                    this.addIssue({ param: 'sort', code: 'UNKNOWN_FIELD', field, message: `Invalid sort field: ${field}` });
+                }
+            }
+
+            if (sort.length === 1) {
+                options.sortField = sort[0].field;
+                options.sortDirection = sort[0].direction;
+            } else if (sort.length > 1) {
+                options.sort = sort;
+            }
+            return;
+        }
+
+        if (params.has('sortField')) {
+            options.sortField = String(params.get('sortField'));
+        }
+        if (params.has('sortDirection')) {
+            const direction = String(params.get('sortDirection')).toUpperCase();
+            if (direction !== 'ASC' && direction !== 'DESC') {
+                this.addIssue({ param: 'sortDirection', code: 'INVALID_VALUE', value: direction, message: `Invalid sort direction: ${direction}` });
+            } else {
+                options.sortDirection = direction;
+            }
+        }
+
+        if (options.sortField && !this.hasField(options.sortField)) {
+            this.addIssue({ param: 'sort', code: 'UNKNOWN_FIELD', field: options.sortField, message: `Invalid sort field: ${options.sortField}` });
+        }
+    }
+
+    private parseInteger(param: string, value: any, min: number, max: number, capCode: QueryParseIssue['code']): number | undefined {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min) {
+            this.addIssue({ param, code: 'INVALID_VALUE', value, message: `${param} must be an integer >= ${min}` });
+            return undefined;
+        }
+        if (parsed > max) {
+            this.addIssue({ param, code: capCode, value, message: `${param} must not exceed ${max}` });
+            return undefined;
+        }
+        return parsed;
+    }
+
+    private checkOffset(param: string, offset: number): number | undefined {
+        if (offset > this.maxOffset) {
+            this.addIssue({ param, code: 'OFFSET_EXCEEDED', value: offset, message: `offset must not exceed ${this.maxOffset}` });
+            return undefined;
+        }
+        return offset;
+    }
+
+    private hasField(field: string): boolean {
+        return JsonPath.resolve(this.fieldMappings, field) !== undefined;
+    }
+
+    private isEmpty(value: any): boolean {
+        return value === undefined || value === null || value === '';
+    }
+
+    private addIssue(issue: QueryParseIssue): void {
+        this.issues.push(issue);
+    }
+}
@@ -0,0 +1,192 @@
+import { FieldMapping, FieldValidator, SelectAlias, SortSpec } from './fieldMapping';
+import { FilterConditionBuilder, FilterNode } from './filterConditionBuilder';
+import { FilterOperation } from './filterOperations';
+import { JsonPath } from './jsonPath';
+import { SqlIdentifier } from './sqlIdentifier';
+import { FieldAccessPolicy } from './accessPolicy';
+import { InvalidFieldError, InvalidQueryError } from './errors';
+
+export type RelationType = 'hasMany' | 'belongsTo';
+
+/**
+ * A table related to the builder's own. For `hasMany`, `foreignKey` is the related field that
+ * points at the parent's `references` field; for `belongsTo`, it is the parent field that points
+ * at the related `references` field. `references` defaults to `id`.
+ */
+export interface RelationDefinition {
+    type: RelationType;
+    table: string;
+    foreignKey: string;
+    references?: string;
+    fieldMappings: Record<string, FieldMapping>;
+    /** Relations of the related table, for nested includes */
+    relations?: Record<string, RelationDefinition>;
+}
+
+export interface RelationIncludeOptions {
+    fields?: string[];
+    filter?: FilterNode;
+    sort?: SortSpec[];
+    /** hasMany only */
+    limit?: number;
+    include?: RelationIncludes;
+}
+
+export type RelationIncludes = string[] | Record<string, RelationIncludeOptions | true>;
+
+export interface RelationContext {
+    schema: string;
+    operators: Map<string, FilterOperation>;
+    timeZone: string;
+    /** Checked against the related mappings' `access` rules */
+    role?: string;
+}
+
+/** Big numbers would lose precision as JSON numbers, so they are embedded as text */
+const TEXT_IN_JSON: FieldMapping['type'][] = ['bigint', 'money'];
+
+export class Relations {
+    /**
+     * Checks a definition against the parent mappings when it is registered, so a typo in a key
+     * fails at startup rather than on the first request.
+     */
+    static validate(name: string, definition: RelationDefinition, parentMappings: Map<string, FieldMapping>): void {
+        if (!SqlIdentifier.isValid(name)) {
+            throw new Error(`Invalid relation name: ${name}`);
+        }
+        if (parentMappings.has(name)) {
+            throw new Error(`Relation ${name} conflicts with a mapped field`);
+        }
+        if (definition.type !== 'hasMany' && definition.type !== 'belongsTo') {
+            throw new Error(`Invalid relation type: ${definition.type}`);
+        }
+        SqlIdentifier.sanitize(definition.table);
+
+        const relatedMappings = new Map(Object.entries(definition.fieldMappings));
+        const [relatedKey, parentKey] = this.keys(definition);
+        this.keyColumn(relatedMappings, relatedKey, name);
+        const parentColumn = this.keyColumn(parentMappings, parentKey, name);
+        // The subquery aliases the related table by its name, which would hide a parent table of
+        // the same name and correlate each row with itself
+        if (parentColumn.split('.')[0] === SqlIdentifier.sanitize(definition.table).split('.').pop()) {
+            throw new Error(`Relation ${name} cannot reference its own table: ${definition.table}`);
+        }
+
+        for (const [nestedName, nested] of Object.entries(definition.relations || {})) {
+            this.validate(nestedName, nested, relatedMappings);
+        }
+    }
+
+    /**
+     * Renders one correlated subquery per included relation, aliased to the relation name:
+     * a `json_agg` array for hasMany and a single `json_build_object` (or null) for belongsTo.
+     * Object keys are the related field names, so rows come back camelCased.
+     */
+    static build(
+        includes: RelationIncludes,
+        relations: Map<string, RelationDefinition>,
+        parentMappings: Map<string, FieldMapping>,
+        context: RelationContext,
+        paramOffset: number
+    ): { columns: string[], values: any[] } {
+        const values: any[] = [];
+        const columns = this.normalize(includes).map(([name, options]) =>
+            SelectAlias.select(this.subquery(name, options, relations, parentMappings, context, paramOffset, values), name)
+        );
+        return { columns, values };
+    }
+
+    private static subquery(
+        name: string,
+        options: RelationIncludeOptions,
+        relations: Map<string, RelationDefinition>,
+        parentMappings: Map<string, FieldMapping>,
+        context: RelationContext,
+        paramOffset: number,
+        values: any[]
+    ): string {
+        const definition = relations.get(name);
+        if (!definition) {
+            throw new InvalidFieldError(`Invalid relation: ${name}`, { field: name, usage: 'include', allowed: Array.from(relations.keys()) });
+        }
+        const { fields = [], filter, sort = [], limit, include } = options;
+        if (definition.type === 'belongsTo' && (sort.length > 0 || limit !== undefined)) {
+            throw new InvalidQueryError(`Relation ${name} returns a single row and cannot be sorted or limited`, { field: name });
+        }
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+            throw new InvalidQueryError(`Invalid limit for relation ${name}: ${limit}`, { field: name, value: limit });
+        }
+
+        const relatedMappings = new Map(Object.entries(definition.fieldMappings));
+        const validator = new FieldValidator(relatedMappings);
+        const access = context.role ? new FieldAccessPolicy(relatedMappings, { role: context.role }) : null;
+        sort.forEach(({ field }) => access?.check(field, 'sort'));
+        const table = SqlIdentifier.sanitize(definition.table);
+        const source = table.includes('.') ? table : `${context.schema}.${table}`;
+        const alias = table.split('.').pop()!;
+
+        // Fields the role may not read, such as an added id, are left out of the JSON entirely
+        const selected = validator.resolveFields(access ? access.readableFields(fields) : fields).filter(({ field }) => !access?.omits(field));
+        const pairs = selected.map(({ field, expression }) => {
+            const mapping = JsonPath.resolve(relatedMappings, field)!;
+            const value = TEXT_IN_JSON.includes(mapping.type) ? `(${expression})::text` : expression;
+            return `'${field.replace(/'/g, "''")}', ${value}`;
+        });
+        const nestedRelations = new Map(Object.entries(definition.relations || {}));
+        for (const [nestedName, nestedOptions] of this.normalize(include || [])) {
+            const nested = this.subquery(nestedName, nestedOptions, nestedRelations, relatedMappings, context, paramOffset, values);
+            pairs.push(`'${nestedName}', ${nested}`);
+        }
+
+        const [relatedKey, parentKey] = this.keys(definition);
+        const conditions = [`${this.keyColumn(relatedMappings, relatedKey, name)} = ${this.keyColumn(parentMappings, parentKey, name)}`];
+        const filters = new FilterConditionBuilder(relatedMappings, new Map(), paramOffset + values.length, context.operators, context.timeZone)
+            .restrictAccess(access)
+            .addFilterTree(filter)
+            .build();
+        values.push(...filters.values);
+        if (filters.text) {
+            conditions.push(filters.text.replace(/^WHERE /, ''));
+        }
+        const where = `WHERE ${conditions.join(' AND ')}`;
+        const object = `json_build_object(${pairs.join(', ')})`;
+
+        if (definition.type === 'belongsTo') {
+            return `(SELECT ${object} FROM ${source} ${alias} ${where} LIMIT 1)`;
+        }
+
+        const orderTerms = sort.length > 0 ? validator.validateSortSpec(sort) : [];
+        const orderBy = orderTerms.length > 0 ? ` ORDER BY ${orderTerms.join(', ')}` : '';
+        let limitClause = '';
+        if (limit !== undefined) {
+            values.push(limit);
+            limitClause = ` LIMIT $${paramOffset + values.length}`;
+        }
+        // The inner query keeps the table name as its alias so mapped dbFields resolve against it
+        return `(SELECT COALESCE(json_agg(${object}${orderBy}), '[]'::json) FROM (SELECT * FROM ${source} ${alias} ${where}${orderBy}${limitClause}) ${alias})`;
+    }
+
+    private static normalize(includes: RelationIncludes): [string, RelationIncludeOptions][] {
+        if (Array.isArray(includes)) {
+            return includes.map(name => [name, {}]);
+        }
+        return Object.entries(includes).map(([name, options]) => [name, options === true ? {} : options]);
+    }
+
+    /** [related field, parent field] joined by the correlation condition */
+    private static keys(definition: RelationDefinition): [string, string] {
+        const references = definition.references ?? 'id';
+        return definition.type === 'hasMany' ? [definition.foreignKey, references] : [references, definition.foreignKey];
+    }
+
+    private static keyColumn(mappings: Map<string, FieldMapping>, field: string, relation: string): string {
+        const mapping = mappings.get(field);
+        if (!mapping) {
+            throw new Error(`Invalid key field for relation ${relation}: ${field}`);
+        }
+        if (JsonPath.isJsonPath(mapping) || !/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/.test(mapping.dbField)) {
+            throw new Error(`Relation ${relation} key must be a plain column: ${field}`);
+        }
+        return mapping.dbField;
+    }
+}
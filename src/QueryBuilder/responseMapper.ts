@@ -1,28 +1,189 @@
 import { FieldMapping } from './fieldMapping';
+import { JsonPath } from './jsonPath';
+import { FieldMappings, FieldRow } from './fieldTypes';
+import { RelationDefinition } from './relations';
+import { AccessPolicy, FieldAccessPolicy } from './accessPolicy';
 
-export class ResponseMapper {
+export interface ResponseMapperOptions {
+    /** Return bigint fields as strings (the default) or as BigInt; numbers would lose precision */
+    bigint?: 'string' | 'bigint';
+    /** Included relations, mapped through their own field mappings; see QueryBuilder.addRelation */
+    relations?: Map<string, RelationDefinition> | Record<string, RelationDefinition>;
+    /** Masks and omits fields for the caller's role; pass the policy the query was built with */
+    access?: AccessPolicy;
+}
+
+const NUMBER_TYPES = ['number', 'smallint', 'float', 'double'];
+
+/**
+ * Pass the mapping object, or give `TMappings` explicitly with a builder's Map, to get rows typed
+ * from the mapping's `type` values.
+ */
+export class ResponseMapper<TMappings extends FieldMappings = FieldMappings> {
     private fieldMappings: Map<string, FieldMapping>;
+    private options: ResponseMapperOptions;
+    private relations: Map<string, RelationDefinition>;
+    private relationMappers: Map<RelationDefinition, ResponseMapper>;
+    private access: FieldAccessPolicy | null;
 
-    constructor(fieldMappings: Map<string, FieldMapping>) {
-        this.fieldMappings = fieldMappings;
+    constructor(fieldMappings: Map<string, FieldMapping> | TMappings, options: ResponseMapperOptions = {}) {
+        this.fieldMappings = fieldMappings instanceof Map ? fieldMappings : new Map(Object.entries(fieldMappings));
+        this.options = options;
+
+        // A builder's Map is kept by reference, so relations added to it later are mapped too
+        const { relations = new Map() } = options;
+        this.relations = relations instanceof Map ? relations : new Map(Object.entries(relations));
+        this.relationMappers = new Map();
+        this.access = options.access ? new FieldAccessPolicy(this.fieldMappings, options.access) : null;
     }
 
-    mapResponse(row: Record<string, any>): Record<string, any> {
+    /**
+     * Maps a row to field names, deserializing each value by its field type, and rebuilds dotted
+     * names such as `profile.country` into nested objects. Columns are read by the alias the
+     * builder selects them under. Computed columns such as window or search results are copied
+     * under the given aliases, and included relations are mapped as nested rows.
+     */
+    mapResponse(row: Record<string, any>, aliases: string[] = []): FieldRow<TMappings> {
         const mapped: Record<string, any> = {};
-        
-        for (const [camelKey, mapping] of this.fieldMappings) {
-            const columnName = this.extractColumnName(mapping.dbField, camelKey);
-            
-            if (Object.prototype.hasOwnProperty.call(row, columnName)) {
-                mapped[camelKey] = row[columnName];
+
+        for (const [field, mapping] of this.fieldMappings) {
+            const column = this.findColumn(row, field, mapping);
+            if (column !== undefined) {
+                mapped[field] = this.deserialize(row[column], mapping);
+            }
+        }
+
+        // Dotted JSON keys selected without a declared mapping come back under their own name
+        for (const key of Object.keys(row)) {
+            const mapping = key.includes('.') && !(key in mapped) ? JsonPath.resolve(this.fieldMappings, key) : undefined;
+            if (mapping) {
+                mapped[key] = this.deserialize(row[key], mapping);
+            }
+        }
+
+        for (const [name, definition] of this.relations) {
+            if (name in row) {
+                mapped[name] = this.relationMapper(definition).mapRelation(row[name]);
+            }
+        }
+
+        for (const alias of aliases) {
+            // Postgres folds unquoted aliases to lower case
+            const column = alias in row ? alias : alias.toLowerCase();
+            if (column in row) {
+                mapped[alias] = row[column];
+            }
+        }
+
+        return this.nest(this.access ? this.access.apply(mapped) : mapped) as FieldRow<TMappings>;
+    }
+
+    mapResponses(rows: Record<string, any>[], aliases: string[] = []): FieldRow<TMappings>[] {
+        return rows.map(row => this.mapResponse(row, aliases));
+    }
+
+    private relationMapper(definition: RelationDefinition): ResponseMapper {
+        if (!this.relationMappers.has(definition)) {
+            // Per-request field lists name the parent's fields; related rows only follow the role
+            const access = this.options.access && { role: this.options.access.role };
+            const options = { ...this.options, relations: definition.relations || {}, access };
+            this.relationMappers.set(definition, new ResponseMapper(definition.fieldMappings, options));
+        }
+        return this.relationMappers.get(definition)!;
+    }
+
+    /** hasMany relations arrive as a JSON array and belongsTo as an object or null */
+    private mapRelation(value: any): any {
+        const parsed = typeof value === 'string' ? this.parseJson(value) : value;
+        if (Array.isArray(parsed)) {
+            return this.mapResponses(parsed);
+        }
+        return this.isPlainObject(parsed) ? this.mapResponse(parsed) : parsed ?? null;
+    }
+
+    /**
+     * pg already parses most types; this covers the ones it leaves as text (numeric, bigint as
+     * BigInt) and values that arrive as text from JSON paths or custom type parsers.
+     */
+    private deserialize(value: any, mapping: FieldMapping): any {
+        if (value === null || value === undefined) {
+            return value;
+        }
+
+        if (NUMBER_TYPES.includes(mapping.type)) {
+            return typeof value === 'string' ? Number(value) : value;
+        }
+
+        switch (mapping.type) {
+            case 'bigint':
+                if (this.options.bigint === 'bigint') {
+                    return typeof value === 'bigint' ? value : BigInt(value);
+                }
+                return String(value);
+            case 'money':
+                return String(value);
+            case 'boolean':
+                return typeof value === 'string' ? ['t', 'true'].includes(value) : value;
+            case 'date':
+            case 'timestamp': {
+                if (value instanceof Date) {
+                    return value;
+                }
+                const date = new Date(value);
+                return Number.isNaN(date.getTime()) ? value : date;
+            }
+            case 'json':
+            case 'jsonb':
+                return typeof value === 'string' && /^\s*[[{]/.test(value) ? this.parseJson(value) : value;
+            case 'bytea':
+                return typeof value === 'string' && value.startsWith('\\x') ? Buffer.from(value.slice(2), 'hex') : value;
+            default:
+                return value;
+        }
+    }
+
+    private parseJson(value: string): any {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+
+    private nest(flat: Record<string, any>): Record<string, any> {
+        const nested: Record<string, any> = {};
+        for (const [key, value] of Object.entries(flat)) {
+            const path = key.split('.');
+            let target = nested;
+            for (const segment of path.slice(0, -1)) {
+                const current = target[segment];
+                // A selected JSON document is extended with the paths read from it; any other value is replaced
+                target[segment] = this.isPlainObject(current) ? { ...current } : {};
+                target = target[segment];
             }
+            target[path[path.length - 1]] = value;
         }
-        
-        return mapped;
+        return nested;
     }
 
-    mapResponses(rows: Record<string, any>[]): Record<string, any>[] {
-        return rows.map(row => this.mapResponse(row));
+    private isPlainObject(value: any): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+    }
+
+    /**
+     * The builder selects every field under its own name. Rows from hand-written queries fall back
+     * to the column name in dbField, except for dotted fields, whose bare column name could belong
+     * to another table.
+     */
+    private findColumn(row: Record<string, any>, field: string, mapping: FieldMapping): string | undefined {
+        if (Object.prototype.hasOwnProperty.call(row, field)) {
+            return field;
+        }
+        if (JsonPath.isJsonPath(mapping) || field.includes('.')) {
+            return undefined;
+        }
+        const column = this.extractColumnName(mapping.dbField, field);
+        return Object.prototype.hasOwnProperty.call(row, column) ? column : undefined;
     }
 
     private extractColumnName(dbField: string, fallback: string): string {
@@ -30,11 +191,11 @@ export class ResponseMapper {
             const match = dbField.match(/AS\s+("?[\w_]+"?)$/i);
             return match ? match[1].replace(/"/g, '') : fallback;
         }
-        
+
         if (dbField.includes('.')) {
             return dbField.split('.').pop()!;
         }
-        
+
         return fallback;
     }
 }
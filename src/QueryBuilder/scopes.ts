@@ -0,0 +1,78 @@
+import { FieldMapping } from './fieldMapping';
+import { FilterConditionBuilder } from './filterConditionBuilder';
+import { JsonPath } from './jsonPath';
+
+/** Field values a scope compares with `=`; null compares with `IS NULL` */
+export type ScopeConditions = Record<string, any>;
+
+/**
+ * Named conditions a builder adds to every query it builds, such as a tenant id or a soft delete
+ * marker. They are rendered apart from requiredFilters, queryParams and filter trees, so request
+ * input can narrow a scoped query but never drop a scope; only unscoped() does that.
+ */
+export class QueryScopes {
+    private scopes: Map<string, ScopeConditions>;
+
+    constructor(scopes: Map<string, ScopeConditions> = new Map()) {
+        this.scopes = scopes;
+    }
+
+    add(name: string, conditions: ScopeConditions, fieldMappings: Map<string, FieldMapping>): this {
+        if (!name || typeof name !== 'string') {
+            throw new Error(`Invalid scope name: ${name}`);
+        }
+        const entries = Object.entries(conditions || {});
+        if (entries.length === 0) {
+            throw new Error(`Scope ${name} requires at least one condition`);
+        }
+        for (const [field, value] of entries) {
+            const mapping = JsonPath.resolve(fieldMappings, field);
+            if (!mapping) {
+                throw new Error(`Invalid scope field for ${name}: ${field}`);
+            }
+            // Computed selections such as `CASE ... END AS status` cannot be compared in a WHERE clause
+            if (mapping.dbField.includes('CASE') || mapping.dbField.includes('SELECT')) {
+                throw new Error(`Scope ${name} cannot filter on computed field ${field}`);
+            }
+            if (value === undefined) {
+                throw new Error(`Scope ${name} has no value for ${field}`);
+            }
+        }
+
+        this.scopes.set(name, { ...conditions });
+        return this;
+    }
+
+    has(name: string): boolean {
+        return this.scopes.has(name);
+    }
+
+    names(): string[] {
+        return Array.from(this.scopes.keys());
+    }
+
+    /** A copy without the named scopes; naming a scope that was never added is an error */
+    without(names: string[]): QueryScopes {
+        const remaining = new Map(this.scopes);
+        for (const name of names) {
+            if (!remaining.delete(name)) {
+                throw new Error(`Unknown scope: ${name}`);
+            }
+        }
+        return new QueryScopes(remaining);
+    }
+
+    apply(filterBuilder: FilterConditionBuilder): FilterConditionBuilder {
+        for (const conditions of this.scopes.values()) {
+            for (const [field, value] of Object.entries(conditions)) {
+                filterBuilder.addScopeCondition(field, value === null ? 'isNull' : 'eq', value);
+            }
+        }
+        return filterBuilder;
+    }
+
+    cacheKey(): string {
+        // Scope values may be BigInt, which JSON.stringify rejects
+        return JSON.stringify(Array.from(this.scopes), (_, v) => typeof v === 'bigint' ? { bigint: v.toString() } : v);
+    }
+}
@@ -0,0 +1,32 @@
+import { InvalidQueryError } from './errors';
+
+export class SqlIdentifier {
+    private static identifierRegex = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+    static isValid(identifier: string): boolean {
+        return this.identifierRegex.test(identifier);
+    }
+
+    static sanitize(identifier: string): string {
+        const parts = identifier.split(/\s+/);
+        const tablePart = parts[0];
+        const alias: string | null = parts.length > 1 ? parts[1] : null;
+
+        const tableParts = tablePart.split('.');
+        const schema = tableParts.length > 1 ? tableParts[0] : null;
+        const table = tableParts.length > 1 ? tableParts[1] : tableParts[0];
+
+        if (schema && !this.isValid(schema)) {
+            throw new InvalidQueryError(`Invalid schema identifier: ${schema}`, { value: schema });
+        }
+        if (!this.isValid(table)) {
+            throw new InvalidQueryError(`Invalid table identifier: ${table}`, { value: table });
+        }
+        if (alias && !this.isValid(alias)) {
+            throw new InvalidQueryError(`Invalid alias identifier: ${alias}`, { value: alias });
+        }
+
+        const sanitizedTable = schema ? `${schema}.${table}` : table;
+        return alias ? `${sanitizedTable} ${alias}` : sanitizedTable;
+    }
+}
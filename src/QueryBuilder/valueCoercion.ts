@@ -0,0 +1,144 @@
+import { FieldMapping } from './fieldMapping';
+import { InvalidValueError, QueryErrorDetails } from './errors';
+
+/**
+ * How an operation's value relates to the field: a single value of the field's type, a list of
+ * them, or a `[start, end]` pair. Operations without an operand shape are not coerced.
+ */
+export type FilterOperand = 'value' | 'list' | 'range';
+
+export interface CoercionContext {
+    field: string;
+    operator: string;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?)?$/;
+const INTEGER = /^-?\d+$/;
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+const FLOAT_TYPES = ['number', 'float', 'double'];
+
+export class ValueCoercion {
+    /**
+     * Coerces an operation's value to the field type, splitting comma-separated lists and
+     * ranges first. `null` and `undefined` pass through untouched.
+     */
+    static coerceOperand(operand: FilterOperand | undefined, value: any, mapping: FieldMapping, context: CoercionContext): any {
+        if (!operand || value === null || value === undefined) {
+            return value;
+        }
+
+        if (operand === 'list') {
+            const list = Array.isArray(value) ? value : String(value).split(',').map(v => v.trim());
+            return list.map(item => this.coerce(item, mapping, context));
+        }
+
+        if (operand === 'range') {
+            const range = Array.isArray(value)
+                ? value
+                : typeof value === 'object' ? [value.start, value.end] : String(value).split(',').map(v => v.trim());
+            if (range.length !== 2) {
+                throw this.error(context, value, 'expected a start and an end');
+            }
+            return range.map(bound => this.coerce(bound, mapping, context));
+        }
+
+        return this.coerce(value, mapping, context);
+    }
+
+    /**
+     * Coerces a single value to the field type, then applies the mapping's `enumValues` and
+     * `validate` callback. Query-string input arrives as text, so numbers and booleans are
+     * parsed; bigints stay strings (or BigInt) to keep their precision.
+     */
+    static coerce(value: any, mapping: FieldMapping, context: CoercionContext): any {
+        if (value === null || value === undefined) {
+            return value;
+        }
+
+        const coerced = this.coerceType(value, mapping.type, context);
+
+        if (mapping.enumValues && !mapping.enumValues.includes(coerced)) {
+            throw this.error(context, value, `expected one of ${mapping.enumValues.join(', ')}`, { allowed: mapping.enumValues });
+        }
+        if (mapping.validate && !mapping.validate(coerced)) {
+            throw this.error(context, value, 'failed validation');
+        }
+        return coerced;
+    }
+
+    private static coerceType(value: any, type: FieldMapping['type'], context: CoercionContext): any {
+        if (FLOAT_TYPES.includes(type)) {
+            const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || !Number.isFinite(number)) {
+                throw this.error(context, value, 'expected a number');
+            }
+            return number;
+        }
+
+        switch (type) {
+            case 'smallint': {
+                const number = typeof value === 'string' && INTEGER.test(value.trim()) ? Number(value) : value;
+                if (!Number.isInteger(number) || number < -32768 || number > 32767) {
+                    throw this.error(context, value, 'expected a smallint');
+                }
+                return number;
+            }
+            case 'bigint':
+                if (typeof value === 'bigint') {
+                    return value;
+                }
+                if (typeof value === 'number' && Number.isSafeInteger(value)) {
+                    return String(value);
+                }
+                if (typeof value === 'string' && INTEGER.test(value.trim())) {
+                    return value.trim();
+                }
+                throw this.error(context, value, 'expected an integer');
+            case 'money':
+                if (typeof value === 'number' && Number.isFinite(value)) {
+                    return String(value);
+                }
+                if (typeof value === 'string' && DECIMAL.test(value.trim())) {
+                    return value.trim();
+                }
+                throw this.error(context, value, 'expected a decimal amount');
+            case 'boolean':
+                if (typeof value === 'boolean') {
+                    return value;
+                }
+                if (['true', '1'].includes(String(value).toLowerCase())) {
+                    return true;
+                }
+                if (['false', '0'].includes(String(value).toLowerCase())) {
+                    return false;
+                }
+                throw this.error(context, value, 'expected a boolean');
+            case 'date':
+            case 'timestamp': {
+                const valid = value instanceof Date
+                    ? !Number.isNaN(value.getTime())
+                    : typeof value === 'string' && ISO_TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value));
+                if (!valid) {
+                    throw this.error(context, value, type === 'date' ? 'expected an ISO date' : 'expected an ISO timestamp');
+                }
+                return value;
+            }
+            case 'uuid':
+                if (typeof value !== 'string' || !UUID.test(value)) {
+                    throw this.error(context, value, 'expected a UUID');
+                }
+                return value;
+            default:
+                return value;
+        }
+    }
+
+    private static error(context: CoercionContext, value: any, reason: string, details: QueryErrorDetails = {}): InvalidValueError {
+        const shown = typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return new InvalidValueError(
+            `Invalid value for field ${context.field} with operator ${context.operator}: ${shown} (${reason})`,
+            { field: context.field, operator: context.operator, value, reason, ...details }
+        );
+    }
+}
@@ -0,0 +1,141 @@
+import { FieldValidator, SortSpec } from './fieldMapping';
+import { SqlIdentifier } from './sqlIdentifier';
+import { InvalidQueryError } from './errors';
+
+export const WINDOW_FUNCTIONS = [
+    'row_number', 'rank', 'dense_rank', 'percent_rank', 'cume_dist', 'ntile',
+    'lag', 'lead', 'first_value', 'last_value', 'nth_value',
+    'sum', 'avg', 'count', 'min', 'max'
+] as const;
+
+export type WindowFunction = typeof WINDOW_FUNCTIONS[number];
+
+export type WindowFrameBound =
+    | 'UNBOUNDED PRECEDING'
+    | 'CURRENT ROW'
+    | 'UNBOUNDED FOLLOWING'
+    | { preceding: number }
+    | { following: number };
+
+export interface WindowFrame {
+    mode?: 'ROWS' | 'RANGE' | 'GROUPS';
+    start: WindowFrameBound;
+    end?: WindowFrameBound;
+}
+
+export interface WindowDefinition {
+    alias: string;
+    fn: WindowFunction;
+    field?: string;
+    offset?: number;
+    partitionBy?: string[];
+    orderBy?: SortSpec[];
+    frame?: WindowFrame;
+}
+
+const RANKING_FUNCTIONS: WindowFunction[] = ['row_number', 'rank', 'dense_rank', 'percent_rank', 'cume_dist', 'ntile'];
+const OFFSET_FUNCTIONS: WindowFunction[] = ['lag', 'lead', 'nth_value', 'ntile'];
+
+export class WindowFunctions {
+    /**
+     * Renders each window definition as `fn(...) OVER (...) AS "alias"`. Aliases are quoted so
+     * they come back from Postgres with their original case.
+     */
+    static build(windows: WindowDefinition[], validator: FieldValidator): string[] {
+        const aliases = new Set<string>();
+        return windows.map(window => {
+            if (!SqlIdentifier.isValid(window.alias)) {
+                throw new InvalidQueryError(`Invalid window alias: ${window.alias}`, { value: window.alias });
+            }
+            if (aliases.has(window.alias)) {
+                throw new InvalidQueryError(`Duplicate window alias: ${window.alias}`, { value: window.alias });
+            }
+            aliases.add(window.alias);
+
+            return `${this.buildCall(window, validator)} OVER (${this.buildOver(window, validator)}) AS "${window.alias}"`;
+        });
+    }
+
+    static aliases(windows: WindowDefinition[]): string[] {
+        return windows.map(window => window.alias);
+    }
+
+    private static buildCall(window: WindowDefinition, validator: FieldValidator): string {
+        const { fn, field, offset } = window;
+        if (!WINDOW_FUNCTIONS.includes(fn)) {
+            throw new InvalidQueryError(`Unsupported window function: ${fn}`, { value: fn, allowed: [...WINDOW_FUNCTIONS] });
+        }
+
+        const args: string[] = [];
+        if (!RANKING_FUNCTIONS.includes(fn)) {
+            if (fn === 'count' && (!field || field === '*')) {
+                args.push('*');
+            } else if (!field) {
+                throw new InvalidQueryError(`Window function ${fn} requires a field`, { value: fn });
+            } else {
+                args.push(validator.validateExpressionField(field, 'window'));
+            }
+        }
+
+        if (OFFSET_FUNCTIONS.includes(fn)) {
+            if (offset === undefined && (fn === 'nth_value' || fn === 'ntile')) {
+                throw new InvalidQueryError(`Window function ${fn} requires an offset`, { value: fn });
+            }
+            if (offset !== undefined) {
+                if (!Number.isInteger(offset) || offset < 1) {
+                    throw new InvalidQueryError(`Invalid window offset: ${offset}`, { value: offset });
+                }
+                args.push(String(offset));
+            }
+        }
+
+        return `${fn}(${args.join(', ')})`;
+    }
+
+    private static buildOver(window: WindowDefinition, validator: FieldValidator): string {
+        const { partitionBy = [], orderBy = [], frame } = window;
+        const clauses: string[] = [];
+
+        if (partitionBy.length > 0) {
+            clauses.push(`PARTITION BY ${partitionBy.map(field => validator.validateExpressionField(field, 'window')).join(', ')}`);
+        }
+
+        if (orderBy.length > 0) {
+            const terms = orderBy.map(({ field, direction = 'ASC', nulls }) =>
+                validator.formatSortTerm(validator.validateExpressionField(field, 'window'), direction, nulls)
+            );
+            clauses.push(`ORDER BY ${terms.join(', ')}`);
+        }
+
+        if (frame) {
+            clauses.push(this.buildFrame(frame));
+        }
+
+        return clauses.join(' ');
+    }
+
+    private static buildFrame(frame: WindowFrame): string {
+        const mode = frame.mode ?? 'ROWS';
+        if (!['ROWS', 'RANGE', 'GROUPS'].includes(mode)) {
+            throw new InvalidQueryError(`Invalid window frame mode: ${mode}`, { value: mode, allowed: ['ROWS', 'RANGE', 'GROUPS'] });
+        }
+
+        const start = this.buildBound(frame.start);
+        return frame.end ? `${mode} BETWEEN ${start} AND ${this.buildBound(frame.end)}` : `${mode} ${start}`;
+    }
+
+    private static buildBound(bound: WindowFrameBound): string {
+        if (typeof bound === 'string') {
+            if (!['UNBOUNDED PRECEDING', 'CURRENT ROW', 'UNBOUNDED FOLLOWING'].includes(bound)) {
+                throw new InvalidQueryError(`Invalid window frame bound: ${bound}`, { value: bound });
+            }
+            return bound;
+        }
+
+        const [direction, rows] = 'preceding' in bound ? ['PRECEDING', bound.preceding] : ['FOLLOWING', bound.following];
+        if (!Number.isInteger(rows) || rows < 0) {
+            throw new InvalidQueryError(`Invalid window frame offset: ${rows}`, { value: rows });
+        }
+        return `${rows} ${direction}`;
+    }
+}
@@ -0,0 +1,136 @@
+import { QueryBuilder, QueryOptions, AggregateQueryOptions, TimeSeriesQueryOptions } from '../QueryBuilder/queryBuilder';
+import { ResponseMapper } from '../QueryBuilder/responseMapper';
+import { PaginationBuilder, PaginationResult, CursorPaginationResult } from '../QueryBuilder/pagination';
+import { FullTextSearch } from '../QueryBuilder/fullTextSearch';
+import { WindowFunctions } from '../QueryBuilder/windowFunctions';
+import { InvalidQueryError } from '../QueryBuilder/errors';
+import { FieldMappings, FieldRow } from '../QueryBuilder/fieldTypes';
+import { AccessPolicy } from '../QueryBuilder/accessPolicy';
+
+/**
+ * Anything with a pg-compatible query method: a pg.Pool, a pg.PoolClient or a test fake.
+ */
+export interface Queryable {
+    query(config: { text: string, values: any[] }): Promise<{ rows: Record<string, any>[] }>;
+}
+
+export interface QueryResult<P = PaginationResult | CursorPaginationResult, R = Record<string, any>> {
+    data: R[];
+    pagination: P;
+}
+
+/** Rows are typed from the builder's mappings; see ResponseMapper */
+export class QueryExecutor<TMappings extends FieldMappings = FieldMappings, TOperators extends string = never> {
+    private client: Queryable;
+    private builder: QueryBuilder<TMappings, TOperators>;
+    private responseMapper: ResponseMapper<TMappings>;
+
+    constructor(client: Queryable, builder: QueryBuilder<TMappings, TOperators>) {
+        this.client = client;
+        this.builder = builder;
+        this.responseMapper = new ResponseMapper<TMappings>(builder.getFieldMappings(), { relations: builder.getRelations() });
+    }
+
+    async findMany(options: QueryOptions<TMappings, TOperators> & { pagination?: 'offset' }): Promise<QueryResult<PaginationResult, FieldRow<TMappings>>>;
+    async findMany(options: QueryOptions<TMappings, TOperators> & { pagination: 'cursor' }): Promise<QueryResult<CursorPaginationResult, FieldRow<TMappings>>>;
+    async findMany(options: QueryOptions<TMappings, TOperators>): Promise<QueryResult<PaginationResult | CursorPaginationResult, FieldRow<TMappings>>>;
+    async findMany(options: QueryOptions<TMappings, TOperators>): Promise<QueryResult<PaginationResult | CursorPaginationResult, FieldRow<TMappings>>> {
+        const { limit = 10, offset = 0, pagination = 'offset', skipCount = false } = options;
+        if (pagination === 'offset' && skipCount) {
+            throw new InvalidQueryError('skipCount is only supported with cursor pagination');
+        }
+
+        const { selectQuery, countQuery } = this.builder.buildSelectQuery(options);
+        const [selectResult, countResult] = await Promise.all([
+            this.client.query(selectQuery),
+            countQuery ? this.client.query(countQuery) : Promise.resolve(null)
+        ]);
+
+        const totalCount = countResult ? this.parseCount(countResult.rows) : undefined;
+
+        if (pagination === 'cursor') {
+            const keys = this.builder.getCursorKeys(options.sortField ?? null);
+            const cursor = options.cursor ?? null;
+            // Cursors are read from the full rows: a key may be selected only for the cursor, in which
+            // case the caller does not get it back. The builder rejects keys the role sees masked or not at all.
+            const unrestricted = this.responseMapper.mapResponses(selectResult.rows);
+            const { pagination: cursorPagination } = PaginationBuilder.buildCursor(unrestricted, limit, keys, cursor, totalCount);
+            const added = this.cursorOnlyKeys(options, keys);
+            const visibleRows = added.length > 0 ? selectResult.rows.map(row => this.without(row, added)) : selectResult.rows;
+            const rows = this.mapperFor(options.access).mapResponses(visibleRows, this.computedAliases(options));
+            return { data: PaginationBuilder.buildCursor(rows, limit, keys, cursor).data, pagination: cursorPagination };
+        }
+
+        const rows = this.mapperFor(options.access).mapResponses(selectResult.rows, this.computedAliases(options));
+        return { data: rows, pagination: PaginationBuilder.build(totalCount!, limit, offset) };
+    }
+
+    async findOne(options: QueryOptions<TMappings, TOperators>): Promise<FieldRow<TMappings> | null> {
+        const { selectQuery } = this.builder.buildSelectQuery({ ...options, limit: 1, offset: 0, pagination: 'offset', skipCount: true });
+        const { rows } = await this.client.query(selectQuery);
+        return rows.length > 0 ? this.mapperFor(options.access).mapResponse(rows[0], this.computedAliases(options)) : null;
+    }
+
+    async exists(options: QueryOptions<TMappings, TOperators>): Promise<boolean> {
+        const { rows } = await this.client.query(this.builder.buildExistsQuery(options));
+        return rows.length > 0;
+    }
+
+    async count(options: QueryOptions<TMappings, TOperators>): Promise<number> {
+        const { countQuery } = this.builder.buildSelectQuery({ ...options, pagination: 'offset', skipCount: false });
+        const { rows } = await this.client.query(countQuery!);
+        return this.parseCount(rows);
+    }
+
+    async aggregate(options: AggregateQueryOptions<TMappings, TOperators>): Promise<Record<string, any>[]> {
+        const query = this.builder.buildAggregateQuery(options);
+        const { rows } = await this.client.query(query);
+        const aliases = Object.keys(options.aggregates || {});
+
+        return this.mapperFor(options.access).mapResponses(rows, aliases);
+    }
+
+    async timeSeries(options: TimeSeriesQueryOptions<TMappings, TOperators>): Promise<Record<string, any>[]> {
+        const query = this.builder.buildTimeSeriesQuery(options);
+        const { rows } = await this.client.query(query);
+        const aliases = [options.bucketAlias ?? 'bucket', ...Object.keys(options.aggregates || {})];
+
+        return this.mapperFor(options.access).mapResponses(rows, aliases);
+    }
+
+    private mapperFor(access: AccessPolicy | undefined): ResponseMapper<TMappings> {
+        if (!access) {
+            return this.responseMapper;
+        }
+        return new ResponseMapper<TMappings>(this.builder.getFieldMappings(), { relations: this.builder.getRelations(), access });
+    }
+
+    /** Keyset columns the builder selected for the cursor although the caller did not ask for them */
+    private cursorOnlyKeys(options: QueryOptions<TMappings, TOperators>, keys: string[]): string[] {
+        const { fields = [] } = options;
+        const requested: string[] = typeof fields === 'string' ? fields.split(',').map(f => f.trim()) : fields;
+        if (requested.length === 0) {
+            return [];
+        }
+        // id is selected for every query, cursor or not
+        return keys.filter(key => key !== 'id' && !requested.includes(key));
+    }
+
+    private without(row: Record<string, any>, columns: string[]): Record<string, any> {
+        const rest = { ...row };
+        columns.forEach(column => delete rest[column]);
+        return rest;
+    }
+
+    private computedAliases(options: QueryOptions<TMappings, TOperators>): string[] {
+        return [
+            ...(options.search ? FullTextSearch.aliases(options.search) : []),
+            ...WindowFunctions.aliases(options.windows || [])
+        ];
+    }
+
+    private parseCount(rows: Record<string, any>[]): number {
+        // pg returns COUNT() as a bigint string
+        return rows.length > 0 ? Number(rows[0].count) : 0;
+    }
+}
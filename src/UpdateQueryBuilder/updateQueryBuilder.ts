@@ -0,0 +1,127 @@
+import { FieldMapping, FieldValidator } from '../QueryBuilder/fieldMapping';
+import { FilterConditionBuilder, FilterNode } from '../QueryBuilder/filterConditionBuilder';
+import { ResponseMapper } from '../QueryBuilder/responseMapper';
+import { SqlIdentifier } from '../QueryBuilder/sqlIdentifier';
+import { InvalidQueryError } from '../QueryBuilder/errors';
+import { QueryScopes, ScopeConditions } from '../QueryBuilder/scopes';
+import { QueryBuilder } from '../QueryBuilder/queryBuilder';
+
+export interface UpdateOptions {
+    tableName: string;
+    data: Record<string, any>;
+    requiredFilters?: Record<string, any>;
+    queryParams?: Record<string, any>;
+    filter?: FilterNode;
+    excludeFields?: string[];
+    returning?: string[] | string;
+    allowUnfiltered?: boolean;
+}
+
+export class UpdateQueryBuilder {
+    private schema: string;
+    private fieldMappings: Map<string, FieldMapping>;
+    private validator: FieldValidator;
+    private responseMapper: ResponseMapper;
+    private scopes: QueryScopes;
+    private debug: boolean;
+
+    constructor(schema: string, fieldMappings: Record<string, FieldMapping>, debug: boolean = false) {
+        this.schema = SqlIdentifier.sanitize(schema);
+        this.fieldMappings = new Map(Object.entries(fieldMappings));
+        this.validator = new FieldValidator(this.fieldMappings);
+        this.responseMapper = new ResponseMapper(this.fieldMappings);
+        this.scopes = new QueryScopes();
+        this.debug = debug;
+    }
+
+    /** Adds conditions to every update; see QueryBuilder.addScope */
+    addScope(name: string, conditions: ScopeConditions): this {
+        this.scopes.add(name, conditions, this.fieldMappings);
+        return this;
+    }
+
+    /**
+     * Shares the scopes of a QueryBuilder, including ones added to it later, so every update is
+     * scoped like the reads. Scopes added here are added to that builder as well.
+     */
+    useScopes(source: QueryBuilder<any, any>): this {
+        this.scopes = source.getScopeSet();
+        return this;
+    }
+
+    /** Returns a builder without the named scopes; this one keeps them */
+    unscoped(...names: string[]): UpdateQueryBuilder {
+        const view: UpdateQueryBuilder = Object.create(Object.getPrototypeOf(this));
+        Object.assign(view, this);
+        view.scopes = this.scopes.without(names);
+        return view;
+    }
+
+    buildUpdateQuery(config: UpdateOptions): { text: string, values: any[] } {
+        const {
+            tableName,
+            data,
+            requiredFilters = {},
+            queryParams = {},
+            filter,
+            excludeFields = [],
+            returning = [],
+            allowUnfiltered = false
+        } = config;
+
+        const assignments: string[] = [];
+        const values: any[] = [];
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) {
+                continue;
+            }
+            const column = this.validator.validateWritableField(field);
+            this.validator.validateValue(field, value);
+            values.push(value);
+            assignments.push(`${column} = $${values.length}`);
+        }
+
+        if (assignments.length === 0) {
+            throw new InvalidQueryError('No valid fields specified for update');
+        }
+
+        const filterBuilder = new FilterConditionBuilder(this.fieldMappings, new Map(), values.length);
+        filterBuilder
+            .addRequiredConditions(requiredFilters)
+            .addDynamicFilters(queryParams, excludeFields)
+            .addFilterTree(filter);
+
+        // Scopes alone do not count as a filter: updating every row of a tenant needs allowUnfiltered too
+        if (!filterBuilder.build().text && !allowUnfiltered) {
+            throw new InvalidQueryError('Refusing to build UPDATE without filter conditions; set allowUnfiltered to update every row');
+        }
+        this.scopes.apply(filterBuilder);
+
+        const filters = filterBuilder.build();
+
+        const returningFields = this.validator.validateReturningFields(returning);
+        const returningClause = returningFields.length > 0 ? `RETURNING ${returningFields.join(', ')}` : '';
+        const sanitizedTableName = SqlIdentifier.sanitize(tableName);
+
+        const query = {
+            text: `
+                UPDATE ${this.schema}.${sanitizedTableName}
+                SET ${assignments.join(', ')}
+                ${filters.text}
+                ${returningClause}
+            `,
+            values: [...values, ...filters.values]
+        };
+
+        if (this.debug) {
+            console.log('DEBUG: Generated Update Query:', query);
+        }
+
+        return query;
+    }
+
+    mapReturning(rows: Record<string, any>[]): Record<string, any>[] {
+        return this.responseMapper.mapResponses(rows);
+    }
+}
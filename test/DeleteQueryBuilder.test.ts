@@ -0,0 +1,96 @@
+import { DeleteQueryBuilder } from '../src/DeleteQueryBuilder';
+import { FieldMapping, QueryBuilder } from '../src/QueryBuilder';
+
+const userFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'users.id', type: 'uuid' },
+    username: { dbField: 'users.username', type: 'string' },
+    isActive: { dbField: 'users.is_active', type: 'boolean' },
+    deletedAt: { dbField: 'users.deleted_at', type: 'timestamp', softDelete: true }
+};
+
+const logFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'logs.id', type: 'uuid' },
+    level: { dbField: 'logs.level', type: 'string' }
+};
+
+const SCHEMA = 'public';
+
+describe('DeleteQueryBuilder', () => {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+    test('should soft delete by default when a deletion marker is mapped', () => {
+        const builder = new DeleteQueryBuilder(SCHEMA, userFieldMappings);
+        const query = builder.buildDeleteQuery({
+            tableName: 'users',
+            requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' },
+            returning: ['id', 'deletedAt']
+        });
+
+        expect(normalize(query.text)).toBe(
+            'UPDATE public.users SET deleted_at = now() WHERE users.id = $1 AND users.deleted_at IS NULL RETURNING users.id AS "id", users.deleted_at AS "deletedAt"'
+        );
+        expect(query.values).toEqual(['3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60']);
+    });
+
+    test('should hard delete when requested or when no marker is mapped', () => {
+        const builder = new DeleteQueryBuilder(SCHEMA, userFieldMappings);
+        const query = builder.buildDeleteQuery({
+            tableName: 'users',
+            mode: 'hard',
+            queryParams: { username_like: 'bot' },
+            returning: 'id'
+        });
+
+        expect(normalize(query.text)).toBe('DELETE FROM public.users WHERE users.username ILIKE $1 RETURNING users.id AS "id"');
+        expect(query.values).toEqual(['%bot%']);
+
+        const logBuilder = new DeleteQueryBuilder(SCHEMA, logFieldMappings);
+        const logQuery = logBuilder.buildDeleteQuery({ tableName: 'logs', requiredFilters: { level: 'debug' } });
+        expect(normalize(logQuery.text)).toBe('DELETE FROM public.logs WHERE logs.level = $1');
+    });
+
+    test('should refuse to delete without filters unless allowed', () => {
+        const builder = new DeleteQueryBuilder(SCHEMA, logFieldMappings);
+
+        expect(() => builder.buildDeleteQuery({ tableName: 'logs', queryParams: {} }))
+            .toThrow('Refusing to build DELETE without filter conditions');
+        expect(() => builder.buildDeleteQuery({ tableName: 'logs', queryParams: { level: '' } }))
+            .toThrow('Refusing to build DELETE without filter conditions');
+
+        const query = builder.buildDeleteQuery({ tableName: 'logs', allowUnfiltered: true });
+        expect(normalize(query.text)).toBe('DELETE FROM public.logs');
+    });
+
+    test('should reject soft delete when no deletion marker is mapped', () => {
+        const builder = new DeleteQueryBuilder(SCHEMA, logFieldMappings);
+
+        expect(() => builder.buildDeleteQuery({ tableName: 'logs', mode: 'soft', requiredFilters: { level: 'debug' } }))
+            .toThrow('Soft delete requires a field mapping flagged with softDelete');
+    });
+
+    test('should apply scopes after the unfiltered check until unscoped', () => {
+        const builder = new DeleteQueryBuilder(SCHEMA, { ...userFieldMappings, tenantId: { dbField: 'users.tenant_id', type: 'string' } })
+            .addScope('tenant', { tenantId: 't1' });
+
+        const query = builder.buildDeleteQuery({ tableName: 'users', mode: 'hard', requiredFilters: { username: 'bot' }, excludeFields: ['tenantId'] });
+        expect(normalize(query.text)).toBe('DELETE FROM public.users WHERE users.username = $1 AND users.tenant_id = $2');
+        expect(query.values).toEqual(['bot', 't1']);
+
+        expect(() => builder.buildDeleteQuery({ tableName: 'users', mode: 'hard' }))
+            .toThrow('Refusing to build DELETE without filter conditions');
+        expect(normalize(builder.unscoped('tenant').buildDeleteQuery({ tableName: 'users', mode: 'hard', allowUnfiltered: true }).text))
+            .toBe('DELETE FROM public.users');
+        expect(() => builder.unscoped('softDelete')).toThrow('Unknown scope: softDelete');
+    });
+
+    test('should share the scopes of a QueryBuilder, including ones added later', () => {
+        const tenantMappings: Record<string, FieldMapping> = { ...userFieldMappings, tenantId: { dbField: 'users.tenant_id', type: 'string' } };
+        const reads = new QueryBuilder(SCHEMA, tenantMappings);
+        const deleter = new DeleteQueryBuilder(SCHEMA, tenantMappings).useScopes(reads);
+        reads.addScope('tenant', { tenantId: 't1' });
+
+        const query = deleter.buildDeleteQuery({ tableName: 'users', mode: 'hard', requiredFilters: { username: 'bot' } });
+        expect(normalize(query.text)).toBe('DELETE FROM public.users WHERE users.username = $1 AND users.tenant_id = $2');
+        expect(query.values).toEqual(['bot', 't1']);
+    });
+});
@@ -0,0 +1,121 @@
+import {
+    QueryBuilder,
+    FieldMapping,
+    QueryBuilderError,
+    InvalidFieldError,
+    InvalidSortFieldError,
+    InvalidValueError,
+    UnsupportedOperatorError,
+    FilterLimitExceededError,
+    QueryValidationError,
+    QueryParseError
+} from '../src/QueryBuilder';
+import { UpdateQueryBuilder } from '../src/UpdateQueryBuilder';
+
+const userFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'users.id', type: 'uuid' },
+    username: { dbField: 'users.username', type: 'string' },
+    age: { dbField: 'users.age', type: 'number' },
+    role: { dbField: 'users.role', type: 'string', enumValues: ['admin', 'viewer'] },
+    createdAt: { dbField: 'users.created_at', type: 'timestamp' }
+};
+
+const SCHEMA = 'public';
+
+const captureError = (fn: () => unknown): any => {
+    try {
+        fn();
+    } catch (error) {
+        return error;
+    }
+    throw new Error('Expected an error');
+};
+
+describe('Query errors', () => {
+    let builder: QueryBuilder;
+
+    beforeEach(() => {
+        builder = new QueryBuilder(SCHEMA, userFieldMappings);
+    });
+
+    test('should throw typed errors with stable codes and details', () => {
+        const unknownField = captureError(() => builder.buildSelectQuery({ tableName: 'users', queryParams: { nickname_eq: 'x' } }));
+        expect(unknownField).toBeInstanceOf(InvalidFieldError);
+        expect(unknownField).toBeInstanceOf(QueryBuilderError);
+        expect(unknownField.toJSON()).toEqual({
+            code: 'INVALID_FIELD',
+            message: 'Invalid filter field: nickname',
+            details: { field: 'nickname', operator: 'eq', usage: 'filter' }
+        });
+
+        const operator = captureError(() => builder.buildSelectQuery({ tableName: 'users', queryParams: { age_around: 3 } }));
+        expect(operator).toBeInstanceOf(UnsupportedOperatorError);
+        expect(operator.details).toEqual({ field: 'age', operator: 'around' });
+
+        const sort = captureError(() => builder.buildSelectQuery({ tableName: 'users', sortField: 'password' }));
+        expect(sort).toBeInstanceOf(InvalidSortFieldError);
+        expect(sort.code).toBe('INVALID_SORT_FIELD');
+
+        const value = captureError(() => builder.buildSelectQuery({ tableName: 'users', queryParams: { role_eq: 'owner' } }));
+        expect(value).toBeInstanceOf(InvalidValueError);
+        expect(value.details).toMatchObject({ field: 'role', operator: 'eq', value: 'owner', allowed: ['admin', 'viewer'] });
+
+        const leaves = Array.from({ length: 51 }, () => ({ field: 'age', op: 'gt', value: 1 }));
+        const limit = captureError(() => builder.buildSelectQuery({ tableName: 'users', filter: { and: leaves } }));
+        expect(limit).toBeInstanceOf(FilterLimitExceededError);
+        expect(limit.details).toEqual({ limit: 50 });
+    });
+
+    test('should attach the filter to errors raised while rendering a value', () => {
+        const error = captureError(() => builder.buildSelectQuery({ tableName: 'users', queryParams: { createdAt_isoWeek: '2026-42' } }));
+
+        expect(error).toBeInstanceOf(InvalidValueError);
+        expect(error.details).toEqual({ field: 'createdAt', operator: 'isoWeek', value: '2026-42' });
+    });
+
+    test('should report every problem at once in collect-all mode', () => {
+        const error = captureError(() => builder.buildSelectQuery({
+            tableName: 'users',
+            fields: ['id'],
+            queryParams: { nickname_eq: 'x', age_gte: 'ten', role_around: 'admin', username_like: 'jo' },
+            filter: { or: [{ field: 'id', op: 'eq', value: 'abc' }, { field: 'age', op: 'lt', value: 40 }] },
+            sortField: 'password',
+            collectErrors: true
+        }));
+
+        expect(error).toBeInstanceOf(QueryValidationError);
+        expect(error.errors.map((e: QueryBuilderError) => e.code)).toEqual([
+            'INVALID_SORT_FIELD',
+            'INVALID_FIELD',
+            'INVALID_VALUE',
+            'UNSUPPORTED_OPERATOR',
+            'INVALID_VALUE'
+        ]);
+        expect(error.toJSON().errors[4].details).toMatchObject({ field: 'id', operator: 'eq', value: 'abc' });
+        expect(error.message).toContain('Invalid sort field: password; Invalid filter field: nickname');
+    });
+
+    test('should build normally in collect-all mode when nothing is wrong', () => {
+        const { selectQuery } = builder.buildSelectQuery({
+            tableName: 'users',
+            fields: ['id'],
+            queryParams: { age_gte: '30' },
+            collectErrors: true
+        });
+
+        expect(selectQuery.text).toContain('WHERE users.age >= $1');
+        expect(selectQuery.values).toEqual([30, 10, 0]);
+    });
+
+    test('should share the base class with parse and write errors', () => {
+        const parse = captureError(() => builder.parseQuery('age_around=3', { tableName: 'users' }));
+        expect(parse).toBeInstanceOf(QueryParseError);
+        expect(parse).toBeInstanceOf(QueryBuilderError);
+        expect(parse.code).toBe('INVALID_QUERY_PARAMS');
+
+        const update = new UpdateQueryBuilder(SCHEMA, userFieldMappings);
+        const write = captureError(() => update.buildUpdateQuery({ tableName: 'users', data: { role: 'owner' }, allowUnfiltered: true }));
+        expect(write).toBeInstanceOf(InvalidValueError);
+        expect(write.details).toEqual({ field: 'role', value: 'owner', allowed: ['admin', 'viewer'] });
+    });
+});
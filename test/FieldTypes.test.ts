@@ -0,0 +1,121 @@
+import { QueryBuilder, ResponseMapper, FieldRow, defineFieldMappings } from '../src/QueryBuilder';
+import { QueryExecutor } from '../src/QueryExecutor';
+
+// These tests mostly check what compiles: ts-jest type-checks the file, so an expected
+// type error that stops being an error fails the suite.
+
+const userFieldMappings = defineFieldMappings({
+    id: { dbField: 'users.id', type: 'uuid', required: true },
+    username: { dbField: 'users.username', type: 'string', required: true },
+    age: { dbField: 'users.age', type: 'number' },
+    isActive: { dbField: 'users.is_active', type: 'boolean' },
+    createdAt: { dbField: 'users.created_at', type: 'timestamp', required: true },
+    metadata: { dbField: 'users.metadata', type: 'jsonb' }
+});
+
+const profileFieldMappings = defineFieldMappings({
+    bio: { dbField: 'profiles.bio', type: 'string' }
+});
+
+const SCHEMA = 'public';
+
+describe('Typed field mappings', () => {
+    const builder = new QueryBuilder(SCHEMA, userFieldMappings);
+
+    test('should accept field names, operators and JSON paths that fit the mappings', () => {
+        const { selectQuery } = builder.buildSelectQuery({
+            tableName: 'users',
+            fields: ['id', 'username', 'metadata.address.city'],
+            queryParams: { age_gte: 18, username_like: 'jo', createdAt_last: '7d', isActive_isTrue: true, username: 'al', 'metadata.plan_eq': 'pro' },
+            filter: { or: [{ field: 'age', op: 'between', value: [18, 30] }, { field: 'createdAt', op: 'relative', value: 'thisMonth' }] },
+            sort: [{ field: 'createdAt', direction: 'DESC' }]
+        });
+
+        expect(selectQuery.text).toContain('users.age >= $');
+
+        builder.buildAggregateQuery({
+            tableName: 'users',
+            aggregates: { total: { function: 'COUNT', field: '*' }, averageAge: { function: 'AVG', field: 'age' } },
+            groupBy: ['isActive']
+        });
+    });
+
+    test('should reject unknown fields and operators that do not fit the field type', () => {
+        // Only compiled: operators outside a field's type are still rendered at runtime
+        const rejected = [
+            // @ts-expect-error unknown field
+            () => builder.buildSelectQuery({ tableName: 'users', fields: ['usernme'] }),
+            // @ts-expect-error unknown field in a query param key
+            () => builder.buildSelectQuery({ tableName: 'users', queryParams: { nickname_eq: 'x' } }),
+            // @ts-expect-error date operator on a number field
+            () => builder.buildSelectQuery({ tableName: 'users', queryParams: { age_monthYear: '2024-01' } }),
+            // @ts-expect-error text operator on a boolean field
+            () => builder.buildSelectQuery({ tableName: 'users', filter: { field: 'isActive', op: 'like', value: 'x' } }),
+            // @ts-expect-error unknown sort field
+            () => builder.buildSelectQuery({ tableName: 'users', sortField: 'password' }),
+            // @ts-expect-error unknown group by field
+            () => builder.buildAggregateQuery({ tableName: 'users', groupBy: ['country'] })
+        ];
+
+        expect(rejected).toHaveLength(6);
+    });
+
+    test('should extend the types with registered operators and joined fields', () => {
+        const extended = new QueryBuilder(SCHEMA, userFieldMappings)
+            .registerOperator({ operator: 'near', render: (value, ctx) => `${ctx.dbField} <-> ${ctx.param(value)} < 10` })
+            .join({ type: 'LEFT', table: 'public.profiles', on: [{ left: 'id', right: 'id' }], fieldMappings: profileFieldMappings });
+
+        const { selectQuery } = extended.buildSelectQuery({
+            tableName: 'users',
+            fields: ['id', 'profiles.bio'],
+            queryParams: { age_near: 30, 'profiles.bio_like': 'dev' }
+        });
+
+        expect(selectQuery.text).toContain('users.age <-> $1 < 10');
+        expect(selectQuery.text).toContain('profiles.bio ILIKE $2');
+        // @ts-expect-error joined fields are addressed through their namespace
+        expect(() => extended.buildSelectQuery({ tableName: 'users', fields: ['bio'] })).toThrow();
+    });
+
+    test('should type joined fields under the join alias', () => {
+        const joined = new QueryBuilder(SCHEMA, userFieldMappings)
+            .join({ type: 'LEFT', table: 'public.profiles', alias: 'profile', on: [{ left: 'id', right: 'id' }], fieldMappings: profileFieldMappings });
+
+        joined.buildSelectQuery({ tableName: 'users', fields: ['username', 'profile.bio'], sortField: 'profile.bio', queryParams: { 'profile.bio_like': 'dev' } });
+
+        const rejected = [
+            // @ts-expect-error the table name is not a namespace once an alias is given
+            () => joined.buildSelectQuery({ tableName: 'users', fields: ['profiles.bio'] }),
+            // @ts-expect-error unknown joined field
+            () => joined.buildSelectQuery({ tableName: 'users', fields: ['profile.age'] }),
+            // @ts-expect-error date operator on a joined string field
+            () => joined.buildSelectQuery({ tableName: 'users', queryParams: { 'profile.bio_monthYear': '2024-01' } })
+        ];
+
+        expect(rejected).toHaveLength(3);
+    });
+
+    test('should type mapped rows from the mapping types', async () => {
+        const mapper = new ResponseMapper(userFieldMappings);
+        const row = mapper.mapResponse({ id: 'u1', username: 'ann', age: 31, created_at: new Date('2024-01-01T00:00:00Z') });
+
+        const createdAt: Date | undefined = row.createdAt;
+        const age: number | null | undefined = row.age;
+        // @ts-expect-error age may be null
+        const strictAge: number | undefined = row.age;
+        expect([createdAt?.getUTCFullYear(), age, strictAge]).toEqual([2024, 31, 31]);
+
+        const orderMapper = new ResponseMapper(defineFieldMappings({ 'shipping.country': { dbField: 'orders.ship_country', type: 'string' } }));
+        const country: string | null | undefined = orderMapper.mapResponse({ 'shipping.country': 'IN' }).shipping?.country;
+        expect(country).toBe('IN');
+
+        const client = { query: async () => ({ rows: [{ id: 'u1', username: 'ann' }] }) };
+        const user: FieldRow<typeof userFieldMappings> | null = await new QueryExecutor(client, builder).findOne({ tableName: 'users', fields: ['id', 'username'] });
+        expect(user?.username?.toUpperCase()).toBe('ANN');
+    });
+
+    test('should leave untyped mappings accepting any string', () => {
+        const loose = new QueryBuilder(SCHEMA, userFieldMappings as Record<string, typeof userFieldMappings[keyof typeof userFieldMappings]>);
+        expect(() => loose.buildSelectQuery({ tableName: 'users', queryParams: { nickname_eq: 'x' } })).toThrow('Invalid filter field: nickname');
+    });
+});
@@ -0,0 +1,90 @@
+import { QueryBuilder, FieldMapping, FilterOperations } from '../src/QueryBuilder';
+
+const placeFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'places.id', type: 'uuid' },
+    name: { dbField: 'places.name', type: 'string' },
+    location: { dbField: 'places.location', type: 'string' },
+    rating: { dbField: 'places.rating', type: 'number' },
+    minRating: { dbField: 'places.min_rating', type: 'number' }
+};
+
+const SCHEMA = 'public';
+
+describe('Custom filter operations', () => {
+    afterEach(() => {
+        if (FilterOperations.has('near')) {
+            FilterOperations.unregister('near');
+        }
+    });
+
+    test('should render a globally registered operator with bound parameters', () => {
+        FilterOperations.register({
+            operator: 'near',
+            render: (value, ctx) => {
+                const [lng, lat, meters] = String(value).split(',').map(Number);
+                return `ST_DWithin(${ctx.dbField}, ST_MakePoint(${ctx.param(lng)}, ${ctx.param(lat)})::geography, ${ctx.param(meters)})`;
+            },
+            validate: value => String(value).split(',').length === 3
+        });
+
+        const builder = new QueryBuilder(SCHEMA, placeFieldMappings);
+        const { selectQuery } = builder.buildSelectQuery({
+            tableName: 'places',
+            fields: ['id'],
+            queryParams: { name_eq: 'cafe', location_near: '80.27,13.08,500' },
+            limit: 10,
+            offset: 0
+        });
+
+        expect(selectQuery.text).toContain(
+            'WHERE places.name = $1 AND ST_DWithin(places.location, ST_MakePoint($2, $3)::geography, $4)'
+        );
+        expect(selectQuery.values).toEqual(['cafe', 80.27, 13.08, 500, 10, 0]);
+        expect(() => builder.buildSelectQuery({ tableName: 'places', queryParams: { location_near: '80.27' } }))
+            .toThrow('Invalid value for filter operation near on field location');
+    });
+
+    test('should refuse duplicate or malformed registrations', () => {
+        expect(() => FilterOperations.register({ operator: 'eq', sqlOperator: '=' }))
+            .toThrow('Filter operation already registered: eq');
+        expect(() => FilterOperations.register({ operator: 'near by', sqlOperator: '=' }))
+            .toThrow('Invalid filter operation name: near by');
+        expect(() => FilterOperations.register({ operator: 'near' }))
+            .toThrow('Filter operation near requires a render function or an sqlOperator');
+        expect(() => FilterOperations.unregister('eq')).toThrow('Cannot unregister built-in filter operation: eq');
+    });
+
+    test('should scope instance operators to their builder and let them override built-ins', () => {
+        const builder = new QueryBuilder(SCHEMA, placeFieldMappings)
+            .registerOperator({ operator: 'similar', sqlOperator: '%' })
+            .registerOperator({ operator: 'like', sqlOperator: 'ILIKE', valueTransformer: v => `${v}%` });
+
+        const { selectQuery } = builder.buildSelectQuery({
+            tableName: 'places',
+            queryParams: { name_similar: 'cafe', name_like: 'caf' }
+        });
+
+        expect(selectQuery.text).toContain('WHERE places.name % $1 AND places.name ILIKE $2');
+        expect(selectQuery.values.slice(0, 2)).toEqual(['cafe', 'caf%']);
+        expect(builder.parseQuery('name_similar=cafe', { tableName: 'places' }).queryParams).toEqual({ name_similar: 'cafe' });
+
+        const other = new QueryBuilder(SCHEMA, placeFieldMappings);
+        expect(() => other.buildSelectQuery({ tableName: 'places', queryParams: { name_similar: 'cafe' } }))
+            .toThrow('Unsupported filter operation: similar');
+    });
+
+    test('should keep built-in operators parameterised', () => {
+        const builder = new QueryBuilder(SCHEMA, placeFieldMappings);
+        const { selectQuery } = builder.buildSelectQuery({
+            tableName: 'places',
+            queryParams: { rating_between: '3,5', rating_col: 'minRating', name_in: 'a,b' }
+        });
+
+        expect(selectQuery.text).toContain(
+            'WHERE places.rating BETWEEN $1 AND $2 AND places.rating = places.min_rating AND places.name IN ($3, $4)'
+        );
+        expect(selectQuery.values.slice(0, 4)).toEqual([3, 5, 'a', 'b']);
+        expect(() => builder.buildSelectQuery({ tableName: 'places', queryParams: { rating_col: '1; DROP TABLE places' } }))
+            .toThrow('Invalid comparison column: 1; DROP TABLE places');
+    });
+});
@@ -0,0 +1,111 @@
+import { InsertQueryBuilder } from '../src/InsertQueryBuilder';
+import { FieldMapping } from '../src/QueryBuilder';
+
+const userFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'users.id', type: 'uuid' },
+    username: { dbField: 'users.username', type: 'string', required: true },
+    email: { dbField: 'users.email', type: 'string', required: true },
+    role: { dbField: 'users.role', type: 'string', enumValues: ['admin', 'viewer'], default: 'viewer' },
+    isActive: { dbField: 'users.is_active', type: 'boolean' }
+};
+
+const SCHEMA = 'public';
+
+describe('InsertQueryBuilder', () => {
+    let builder: InsertQueryBuilder;
+
+    beforeEach(() => {
+        builder = new InsertQueryBuilder(SCHEMA, userFieldMappings);
+    });
+
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+    test('should build a single-row insert with defaults filled in', () => {
+        const query = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: { username: 'jane', email: 'jane@example.com' },
+            returning: ['id', 'username']
+        });
+
+        expect(normalize(query.text)).toBe(
+            'INSERT INTO public.users (username, email, role) VALUES ($1, $2, $3) RETURNING users.id AS "id", users.username AS "username"'
+        );
+        expect(query.values).toEqual(['jane', 'jane@example.com', 'viewer']);
+    });
+
+    test('should build a multi-row insert and use DEFAULT for optional gaps', () => {
+        const query = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: [
+                { username: 'a', email: 'a@example.com', isActive: true },
+                { username: 'b', email: 'b@example.com', role: 'admin' }
+            ]
+        });
+
+        expect(normalize(query.text)).toContain(
+            'INSERT INTO public.users (username, email, is_active, role) VALUES ($1, $2, $3, $4), ($5, $6, DEFAULT, $7)'
+        );
+        expect(query.values).toEqual(['a', 'a@example.com', true, 'viewer', 'b', 'b@example.com', 'admin']);
+    });
+
+    test('should reject rows missing required fields or with invalid values', () => {
+        expect(() => builder.buildInsertQuery({ tableName: 'users', rows: [{ username: 'a' }] }))
+            .toThrow('Field is required: email (row 0)');
+        expect(() => builder.buildInsertQuery({ tableName: 'users', rows: { username: 'a', email: 'a@x', role: 'root' } }))
+            .toThrow('Invalid value for role');
+        expect(() => builder.buildInsertQuery({ tableName: 'users', rows: [] }))
+            .toThrow('No rows specified for insert');
+    });
+
+    test('should support ON CONFLICT DO NOTHING', () => {
+        const query = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: { username: 'a', email: 'a@example.com' },
+            onConflict: { target: ['email'], action: 'nothing' }
+        });
+
+        expect(normalize(query.text)).toContain('ON CONFLICT (email) DO NOTHING');
+    });
+
+    test('should support ON CONFLICT DO UPDATE with EXCLUDED columns', () => {
+        const query = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: { username: 'a', email: 'a@example.com', isActive: true },
+            onConflict: { target: ['email'], action: 'update' }
+        });
+
+        expect(normalize(query.text)).toContain(
+            'ON CONFLICT (email) DO UPDATE SET username = EXCLUDED.username, is_active = EXCLUDED.is_active'
+        );
+
+        const explicit = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: { username: 'a', email: 'a@example.com' },
+            onConflict: { target: ['email'], action: 'update', updateFields: ['username'] }
+        });
+        expect(normalize(explicit.text)).toContain('DO UPDATE SET username = EXCLUDED.username');
+    });
+
+    test('should leave defaulted columns out of the default DO UPDATE list', () => {
+        const query = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: { username: 'a', email: 'a@example.com' },
+            onConflict: { target: ['email'], action: 'update' }
+        });
+
+        expect(normalize(query.text)).toContain('INSERT INTO public.users (username, email, role) VALUES ($1, $2, $3)');
+        expect(normalize(query.text)).toContain('ON CONFLICT (email) DO UPDATE SET username = EXCLUDED.username');
+        expect(query.text).not.toContain('role = EXCLUDED.role');
+
+        const supplied = builder.buildInsertQuery({
+            tableName: 'users',
+            rows: [{ username: 'a', email: 'a@example.com' }, { username: 'b', email: 'b@example.com', role: 'admin' }],
+            onConflict: { target: ['email'], action: 'update' }
+        });
+        expect(normalize(supplied.text)).toContain('DO UPDATE SET username = EXCLUDED.username, role = EXCLUDED.role');
+    });
+
+    test('should map RETURNING rows back to camelCase', () => {
+        expect(builder.mapReturning([{ id: 'uuid-1', is_active: false }])).toEqual([{ id: 'uuid-1', isActive: false }]);
+    });
+});
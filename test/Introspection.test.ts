@@ -0,0 +1,142 @@
+import { spawnSync } from 'child_process';
+import { SchemaIntrospector, IntrospectionQuery } from '../src/Introspection';
+import { QueryBuilder } from '../src/QueryBuilder';
+
+const column = (table_name: string, column_name: string, data_type: string, udt_name: string, overrides: Record<string, any> = {}) => ({
+    table_name,
+    column_name,
+    data_type,
+    udt_name,
+    is_nullable: 'YES',
+    has_default: false,
+    enum_values: null,
+    ...overrides
+});
+
+const catalogRows = [
+    column('order_items', 'id', 'bigint', 'int8', { is_nullable: 'NO', has_default: true }),
+    column('order_items', 'quantity', 'smallint', 'int2', { is_nullable: 'NO' }),
+    column('users', 'id', 'uuid', 'uuid', { is_nullable: 'NO', has_default: true }),
+    column('users', 'email_address', 'character varying', 'varchar', { is_nullable: 'NO' }),
+    column('users', 'role', 'USER-DEFINED', 'user_role', { is_nullable: 'NO', has_default: true, enum_values: ['admin', 'viewer'] }),
+    column('users', 'balance', 'money', 'money'),
+    column('users', 'rating', 'double precision', 'float8'),
+    column('users', 'is_active', 'boolean', 'bool'),
+    column('users', 'birth_date', 'date', 'date'),
+    column('users', 'created_at', 'timestamp with time zone', 'timestamptz', { is_nullable: 'NO', has_default: true }),
+    column('users', 'settings', 'jsonb', 'jsonb'),
+    column('users', 'tags', 'ARRAY', '_text'),
+    column('users', 'search_vector', 'tsvector', 'tsvector'),
+    column('users', 'last_ip', 'inet', 'inet'),
+    column('users', 'location', 'USER-DEFINED', 'geography')
+];
+
+describe('SchemaIntrospector', () => {
+    let calls: { text: string, values: any[] }[];
+    let query: IntrospectionQuery;
+
+    beforeEach(() => {
+        calls = [];
+        query = async (text, values) => {
+            calls.push({ text, values });
+            return catalogRows;
+        };
+    });
+
+    test('should query the catalog for the requested schema and tables', async () => {
+        await new SchemaIntrospector(query).introspect({ schema: 'app', tables: ['users'] });
+        await new SchemaIntrospector(query).introspect();
+
+        expect(calls[0].text).toContain('FROM information_schema.columns c');
+        expect(calls[0].text).toContain('pg_catalog.pg_enum');
+        expect(calls[0].values).toEqual(['app', ['users']]);
+        expect(calls[1].values).toEqual(['public', null]);
+    });
+
+    test('should map columns to field mappings keyed by camelCase name', async () => {
+        const tables = await new SchemaIntrospector(query).introspect();
+
+        expect(Object.keys(tables)).toEqual(['order_items', 'users']);
+        expect(tables.order_items).toEqual({
+            id: { dbField: 'order_items.id', type: 'bigint' },
+            quantity: { dbField: 'order_items.quantity', type: 'smallint', required: true }
+        });
+        expect(tables.users).toEqual({
+            id: { dbField: 'users.id', type: 'uuid' },
+            emailAddress: { dbField: 'users.email_address', type: 'string', required: true },
+            role: { dbField: 'users.role', type: 'string', enumValues: ['admin', 'viewer'] },
+            balance: { dbField: 'users.balance', type: 'money' },
+            rating: { dbField: 'users.rating', type: 'double' },
+            isActive: { dbField: 'users.is_active', type: 'boolean' },
+            birthDate: { dbField: 'users.birth_date', type: 'date' },
+            createdAt: { dbField: 'users.created_at', type: 'timestamp' },
+            settings: { dbField: 'users.settings', type: 'jsonb' },
+            tags: { dbField: 'users.tags', type: 'array' },
+            searchVector: { dbField: 'users.search_vector', type: 'tsvector' },
+            lastIp: { dbField: 'users.last_ip', type: 'inet' },
+            location: { dbField: 'users.location', type: 'string' }
+        });
+
+        const { selectQuery } = new QueryBuilder('public', tables.users).buildSelectQuery({
+            tableName: 'users',
+            fields: ['id', 'role'],
+            queryParams: { role_eq: 'admin', isActive_isTrue: true }
+        });
+        expect(selectQuery.text).toContain('WHERE users.role = $1');
+    });
+
+    test('should run through any pg-compatible client', async () => {
+        const client = { query: async (config: { text: string, values: any[] }) => ({ rows: await query(config.text, config.values) }) };
+        const tables = await SchemaIntrospector.fromClient(client).introspect({ tables: ['order_items'] });
+
+        expect(calls[0].values).toEqual(['public', ['order_items']]);
+        expect(tables.order_items.quantity.type).toBe('smallint');
+    });
+
+    test('should emit a TypeScript module with one export per table', async () => {
+        const tables = await new SchemaIntrospector(query).introspect();
+        tables.users.role.enumValues = ["o'wner", 'viewer'];
+
+        const source = SchemaIntrospector.emitTypeScript(tables, { importPath: '../src/QueryBuilder' });
+
+        expect(source).toContain("import { defineFieldMappings } from '../src/QueryBuilder';");
+        expect(source).toContain('export const orderItemsFieldMappings = defineFieldMappings({');
+        expect(source).toContain("    quantity: { dbField: 'order_items.quantity', type: 'smallint', required: true }\n});");
+        expect(source).toContain("    role: { dbField: 'users.role', type: 'string', enumValues: ['o\\'wner', 'viewer'] },");
+        expect(source.endsWith("    location: { dbField: 'users.location', type: 'string' }\n});\n")).toBe(true);
+    });
+
+    test('should camelCase and quote mixed-case names', () => {
+        const mapping = SchemaIntrospector.toFieldMapping({
+            tableName: 'LegacyOrders',
+            columnName: 'Order_ID',
+            dataType: 'integer',
+            udtName: 'int4',
+            nullable: true,
+            hasDefault: false,
+            enumValues: null
+        });
+
+        expect(SchemaIntrospector.toCamelCase('Order_ID')).toBe('OrderID');
+        expect(SchemaIntrospector.toCamelCase('line__item_no')).toBe('lineItemNo');
+        expect(mapping).toEqual({ dbField: '"LegacyOrders"."Order_ID"', type: 'number' });
+        expect(SchemaIntrospector.quoteIdentifier('say"hi')).toBe('"say""hi"');
+
+        const { selectQuery } = new QueryBuilder('public', { orderId: mapping }).buildSelectQuery({
+            tableName: 'LegacyOrders',
+            fields: ['orderId'],
+            queryParams: { orderId: 7 }
+        });
+        expect(selectQuery.text).toContain('SELECT "LegacyOrders"."Order_ID" AS "orderId"');
+        expect(selectQuery.text).toContain('WHERE "LegacyOrders"."Order_ID" = $1');
+    });
+
+    test('should run the introspect script from the command line', () => {
+        // Runs the package script as configured, without a database: --help returns before connecting
+        const result = spawnSync('npm', ['run', '--silent', 'introspect', '--', '--help'], { encoding: 'utf8', timeout: 60000 });
+
+        expect(result.stderr).toBe('');
+        expect(result.status).toBe(0);
+        expect(result.stdout).toContain('Usage: introspect');
+    }, 60000);
+});
@@ -1,4 +1,4 @@
-import { QueryBuilder, FieldMapping, ResponseMapper, DateFilterUtils, PaginationBuilder, PaginationResult } from '../src/QueryBuilder';
+import { QueryBuilder, FieldMapping, ResponseMapper, DateFilterUtils, PaginationBuilder, PaginationResult, AggregateQueryOptions, QueryOptions, QueryValidationError, MASKED_VALUE, AccessPolicy } from '../src/QueryBuilder';
 
 // Mock field mappings for users table
 const userFieldMappings: Record<string, FieldMapping> = {
@@ -46,7 +46,7 @@ describe('QueryBuilder Test Suite', () => {
                 offset: 0
             });
 
-            expect(selectQuery.text).toContain('SELECT users.id, users.username, users.created_at');
+            expect(selectQuery.text).toContain('SELECT users.id AS "id", users.username AS "username", users.created_at AS "createdAt"');
             expect(selectQuery.text).toContain('WHERE users.is_active = $1');
             expect(selectQuery.values).toContain(true);
             expect(selectQuery.text).toContain('LIMIT $2 OFFSET $3');
@@ -67,6 +67,57 @@ describe('QueryBuilder Test Suite', () => {
             expect(selectQuery.text).toContain('LIMIT $2 OFFSET $3');
             expect(selectQuery.values).toEqual(expect.arrayContaining([50, 100]));
         });
+
+        test('should build existence checks without an id mapping', () => {
+            const logBuilder = new QueryBuilder(SCHEMA, {
+                level: { dbField: 'logs.level', type: 'string' },
+                message: { dbField: 'logs.message', type: 'string' }
+            });
+            const query = logBuilder.buildExistsQuery({
+                tableName: 'logs',
+                fields: ['message'],
+                queryParams: { level: 'error' },
+                sortField: 'message',
+                limit: 50
+            });
+
+            expect(query.text.replace(/\s+/g, ' ').trim()).toBe('SELECT 1 FROM public.logs WHERE logs.level ILIKE $1 LIMIT 1');
+            expect(query.values).toEqual(['%error%']);
+        });
+    });
+
+    describe('Multi-column Sorting', () => {
+        test('should order by each sort entry with NULLS handling and an id tie-breaker', () => {
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'username', 'createdAt'],
+                sort: [
+                    { field: 'profileId', direction: 'DESC', nulls: 'LAST' },
+                    { field: 'createdAt', direction: 'ASC' }
+                ],
+                limit: 10,
+                offset: 0
+            });
+
+            expect(selectQuery.text).toContain('ORDER BY users.profile_id DESC NULLS LAST, users.created_at ASC, users.id ASC');
+        });
+
+        test('should not duplicate the id tie-breaker and should include sort in the cache key', () => {
+            const first = builder.buildSelectQuery({ tableName: 'users', fields: ['id'], sort: [{ field: 'id', direction: 'DESC' }] });
+            const second = builder.buildSelectQuery({ tableName: 'users', fields: ['id'], sort: [{ field: 'username' }] });
+
+            expect(first.selectQuery.text).toContain('ORDER BY users.id DESC\n');
+            expect(second.selectQuery.text).toContain('ORDER BY users.username ASC, users.id ASC');
+        });
+
+        test('should reject invalid sort entries', () => {
+            const build = (sort: any) => builder.buildSelectQuery({ tableName: 'users', fields: ['id'], sort });
+
+            expect(() => build([{ field: 'status' }])).toThrow('Cannot sort by computed field: status');
+            expect(() => build([{ field: 'nope' }])).toThrow('Invalid sort field: nope');
+            expect(() => build([{ field: 'username', direction: 'DESC; DROP TABLE users' }])).toThrow('Invalid sort direction');
+            expect(() => build([{ field: 'username', nulls: 'MIDDLE' }])).toThrow('Invalid nulls ordering: MIDDLE');
+        });
     });
 
     describe('Advanced Filtering', () => {
@@ -117,6 +168,348 @@ describe('QueryBuilder Test Suite', () => {
             expect(selectQuery.text).toContain('BETWEEN');
             expect(selectQuery.text).toContain('NOT BETWEEN');
         });
+
+        test('should resolve date filters as half-open ranges in the requested time zone', () => {
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { createdAt_monthYear: '2026-03' },
+                timeZone: 'America/New_York'
+            });
+
+            expect(selectQuery.text).toContain('WHERE users.created_at >= $1 AND users.created_at < $2');
+            expect(selectQuery.values.slice(0, 2)).toEqual(['2026-03-01T05:00:00.000Z', '2026-04-01T04:00:00.000Z']);
+        });
+
+        test('should support ISO week, before/after and day-of-week filters', () => {
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: {
+                    createdAt_isoWeek: '2026-W42',
+                    createdAt_after: '2026-10-12',
+                    createdAt_before: '2026-10-16T12:00:00Z',
+                    createdAt_dayOfWeek: 'sat,sun'
+                },
+                timeZone: 'Europe/Berlin'
+            });
+
+            expect(selectQuery.text).toContain('users.created_at >= $1 AND users.created_at < $2');
+            expect(selectQuery.text).toContain('users.created_at >= $3');
+            expect(selectQuery.text).toContain('users.created_at < $4');
+            expect(selectQuery.text).toContain('EXTRACT(ISODOW FROM users.created_at::timestamptz AT TIME ZONE $5) IN ($6, $7)');
+            expect(selectQuery.values.slice(0, 7)).toEqual([
+                '2026-10-11T22:00:00.000Z', '2026-10-18T22:00:00.000Z',
+                '2026-10-12T22:00:00.000Z',
+                '2026-10-16T12:00:00Z',
+                'Europe/Berlin', 6, 7
+            ]);
+        });
+
+        test('should not cache queries with relative date filters', () => {
+            const options = { tableName: 'users', fields: ['id'], queryParams: { createdAt_last: '7d' } };
+            const { selectQuery } = builder.buildSelectQuery(options);
+            const [start, end] = selectQuery.values;
+
+            expect(selectQuery.text).toContain('users.created_at >= $1 AND users.created_at < $2');
+            expect(new Date(end).getTime() - new Date(start).getTime()).toBe(7 * 24 * 3600 * 1000);
+            expect((builder as any).queryCache.size).toBe(0);
+        });
+
+        test('should reject malformed date filter values', () => {
+            const build = (queryParams: Record<string, any>) => () =>
+                builder.buildSelectQuery({ tableName: 'users', fields: ['id'], queryParams });
+
+            expect(build({ createdAt_last: 'soon' })).toThrow('Invalid relative duration: soon');
+            expect(build({ createdAt_relative: 'someday' })).toThrow('Invalid relative date range: someday');
+            expect(build({ createdAt_isoWeek: '2025-W53' })).toThrow('Invalid ISO week: 2025-W53');
+            expect(build({ createdAt_dayOfWeek: 'funday' })).toThrow('Invalid day of week: funday');
+            expect(() => builder.buildSelectQuery({ tableName: 'users', fields: ['id'], timeZone: 'Mars/Olympus' }))
+                .toThrow('Invalid time zone: Mars/Olympus');
+        });
+    });
+
+    describe('Query Cache', () => {
+        test('should reuse cached queries without duplicating pagination values', () => {
+            const options = { tableName: 'users', fields: ['id'], queryParams: { username_like: 'jo' }, limit: 5, offset: 0 };
+            const first = builder.buildSelectQuery(options);
+            const second = builder.buildSelectQuery({ ...options, offset: 5 });
+            const other = builder.buildSelectQuery({ ...options, queryParams: { username_like: 'al' } });
+
+            expect(first.selectQuery.values).toEqual(['%jo%', 5, 0]);
+            expect(second.selectQuery.values).toEqual(['%jo%', 5, 5]);
+            expect(other.selectQuery.values).toEqual(['%al%', 5, 0]);
+        });
+
+        test('should key cached queries on time zone', () => {
+            const options = { tableName: 'users', fields: ['id'], queryParams: { createdAt_year: '2026' } };
+            const utc = builder.buildSelectQuery(options);
+            const tokyo = builder.buildSelectQuery({ ...options, timeZone: 'Asia/Tokyo' });
+
+            expect(utc.selectQuery.values[0]).toBe('2026-01-01T00:00:00.000Z');
+            expect(tokyo.selectQuery.values[0]).toBe('2025-12-31T15:00:00.000Z');
+        });
+    });
+
+    describe('Cursor Pagination', () => {
+        test('should order by the sort field and id without a predicate on the first page', () => {
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'createdAt'],
+                requiredFilters: { isActive: true },
+                sortField: 'createdAt',
+                sortDirection: 'DESC',
+                pagination: 'cursor',
+                limit: 20
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain('WHERE users.is_active = $1 ORDER BY users.created_at DESC NULLS LAST, users.id DESC LIMIT $2');
+            expect(normalizedQuery).not.toContain('OFFSET');
+            expect(selectQuery.values).toEqual([true, 21]);
+            expect(countQuery!.values).toEqual([true]);
+        });
+
+        test('should build keyset predicates from next and previous cursors', () => {
+            const nextCursor = PaginationBuilder.encodeCursor(['createdAt', 'id'], ['2024-03-02', 'b']);
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'createdAt'],
+                requiredFilters: { isActive: true },
+                sortField: 'createdAt',
+                sortDirection: 'DESC',
+                pagination: 'cursor',
+                cursor: nextCursor,
+                limit: 20,
+                skipCount: true
+            });
+
+            expect(selectQuery.text.replace(/\s+/g, ' ')).toContain(
+                'WHERE users.is_active = $1 AND ((users.created_at, users.id) < ($2, $3) OR users.created_at IS NULL) ' +
+                'ORDER BY users.created_at DESC NULLS LAST, users.id DESC LIMIT $4'
+            );
+            expect(selectQuery.values).toEqual([true, '2024-03-02', 'b', 21]);
+            expect(countQuery).toBeNull();
+
+            const prevCursor = PaginationBuilder.encodeCursor(['createdAt', 'id'], ['2024-03-02', 'b'], true);
+            const { selectQuery: prevQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'createdAt'],
+                sortField: 'createdAt',
+                sortDirection: 'DESC',
+                pagination: 'cursor',
+                cursor: prevCursor
+            });
+
+            expect(prevQuery.text.replace(/\s+/g, ' ')).toContain(
+                'WHERE (users.created_at, users.id) > ($1, $2) ORDER BY users.created_at ASC NULLS FIRST, users.id ASC LIMIT $3'
+            );
+        });
+
+        test('should page through rows whose sort value is NULL', () => {
+            const nextCursor = PaginationBuilder.encodeCursor(['createdAt', 'id'], [null, 'b']);
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'createdAt'],
+                sortField: 'createdAt',
+                sortDirection: 'DESC',
+                pagination: 'cursor',
+                cursor: nextCursor,
+                skipCount: true
+            });
+
+            expect(selectQuery.text.replace(/\s+/g, ' ')).toContain(
+                'WHERE users.created_at IS NULL AND users.id < $1 ORDER BY users.created_at DESC NULLS LAST, users.id DESC LIMIT $2'
+            );
+            expect(selectQuery.values).toEqual(['b', 11]);
+
+            const prevCursor = PaginationBuilder.encodeCursor(['createdAt', 'id'], [null, 'b'], true);
+            const { selectQuery: prevQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'createdAt'],
+                sortField: 'createdAt',
+                sortDirection: 'DESC',
+                pagination: 'cursor',
+                cursor: prevCursor,
+                skipCount: true
+            });
+
+            expect(prevQuery.text.replace(/\s+/g, ' ')).toContain(
+                'WHERE ((users.created_at IS NULL AND users.id > $1) OR users.created_at IS NOT NULL) ' +
+                'ORDER BY users.created_at ASC NULLS FIRST, users.id ASC LIMIT $2'
+            );
+        });
+
+        test('should compare rows directly when the sort field is required', () => {
+            const requiredMappings: Record<string, FieldMapping> = {
+                ...userFieldMappings,
+                createdAt: { dbField: 'users.created_at', type: 'timestamp', required: true }
+            };
+            const requiredBuilder = new QueryBuilder(SCHEMA, requiredMappings);
+            const cursor = PaginationBuilder.encodeCursor(['createdAt', 'id'], ['2024-03-02', 'b']);
+            const { selectQuery } = requiredBuilder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'createdAt'],
+                sortField: 'createdAt',
+                sortDirection: 'DESC',
+                pagination: 'cursor',
+                cursor,
+                skipCount: true
+            });
+
+            expect(selectQuery.text.replace(/\s+/g, ' ')).toContain(
+                'WHERE (users.created_at, users.id) < ($1, $2) ORDER BY users.created_at DESC, users.id DESC LIMIT $3'
+            );
+        });
+
+        test('should select the keyset columns when fields leave them out', () => {
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['username'],
+                sortField: 'createdAt',
+                pagination: 'cursor'
+            });
+
+            expect(selectQuery.text).toContain('SELECT users.username AS "username", users.created_at AS "createdAt", users.id AS "id"');
+        });
+
+        test('should reject cursors issued for a different sort field', () => {
+            const cursor = PaginationBuilder.encodeCursor(['username', 'id'], ['bob', 'b']);
+
+            expect(() => builder.buildSelectQuery({
+                tableName: 'users',
+                sortField: 'createdAt',
+                pagination: 'cursor',
+                cursor
+            })).toThrow('Pagination cursor does not match the requested sort field');
+        });
+    });
+
+    describe('Nested Filter Groups', () => {
+        test('should render AND/OR/NOT groups with consistent parameter numbering', () => {
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'username'],
+                requiredFilters: { isActive: true },
+                filter: {
+                    or: [
+                        { field: 'email', op: 'endsWith', value: '@corp.com' },
+                        { and: [{ field: 'username', op: 'startsWith', value: 'adm' }, { field: 'tags', op: 'in', value: ['a', 'b'] }] }
+                    ],
+                    not: { field: 'profileId', op: 'isNull' }
+                },
+                limit: 10,
+                offset: 0
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain(
+                'WHERE users.is_active = $1 AND ((users.email ILIKE $2 OR (users.username ILIKE $3 AND users.tags IN ($4, $5))) AND NOT (users.profile_id IS NULL))'
+            );
+            expect(normalizedQuery).toContain('LIMIT $6 OFFSET $7');
+            expect(selectQuery.values).toEqual([true, '%@corp.com', 'adm%', 'a', 'b', 10, 0]);
+            expect(countQuery!.values).toEqual([true, '%@corp.com', 'adm%', 'a', 'b']);
+        });
+
+        test('should apply filter trees to aggregate queries', () => {
+            const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings);
+            const aggregateQuery = profileBuilder.buildAggregateQuery({
+                tableName: 'profiles',
+                aggregates: { total: { function: 'COUNT', field: 'id' } },
+                groupBy: ['country'],
+                filter: { or: [{ field: 'age', op: 'lt', value: 18 }, { field: 'age', op: 'gt', value: 65 }] }
+            });
+
+            expect(aggregateQuery.text).toContain('WHERE (profiles.age < $1 OR profiles.age > $2)');
+            expect(aggregateQuery.values).toEqual([18, 65]);
+        });
+
+        test('should validate fields, operators and condition limits in filter trees', () => {
+            const build = (filter: any) => builder.buildSelectQuery({ tableName: 'users', fields: ['id'], filter });
+
+            expect(() => build({ or: [{ field: 'nope', op: 'eq', value: 1 }] })).toThrow('Invalid filter field: nope');
+            expect(() => build({ and: [{ field: 'email', op: 'bogus', value: 1 }] })).toThrow('Unsupported filter operation: bogus');
+            expect(() => build({ xor: [] })).toThrow('Invalid filter group key: xor');
+
+            const tooMany = { or: Array.from({ length: 51 }, () => ({ field: 'email', op: 'eq', value: 'x' })) };
+            expect(() => build(tooMany)).toThrow('Maximum number of filter conditions exceeded');
+        });
+
+        test('should render or reject status leaves instead of dropping them', () => {
+            const tasks = new QueryBuilder(SCHEMA, {
+                id: { dbField: 'tasks.id', type: 'uuid' },
+                status: { dbField: 'tasks.status', type: 'string' },
+                assigneeId: { dbField: 'tasks.assignee_id', type: 'uuid' }
+            });
+            const assigned = { field: 'assigneeId', op: 'eq', value: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' } as const;
+
+            const or = tasks.buildSelectQuery({ tableName: 'tasks', fields: ['id'], filter: { or: [{ field: 'status', op: 'eq', value: 'open' }, assigned] } });
+            expect(or.selectQuery.text).toContain('WHERE (tasks.status = $1 OR tasks.assignee_id = $2)');
+
+            const not = tasks.buildSelectQuery({ tableName: 'tasks', fields: ['id'], filter: { and: [assigned, { not: { field: 'status', op: 'eq', value: 'done' } }] } });
+            expect(not.selectQuery.text).toContain('WHERE (tasks.assignee_id = $1 AND NOT (tasks.status = $2))');
+            expect(not.selectQuery.values).toEqual(['3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60', 'done', 10, 0]);
+
+            // userFieldMappings maps status to a CASE expression, which cannot be compared in WHERE
+            expect(() => builder.buildSelectQuery({ tableName: 'users', fields: ['id'], filter: { or: [{ field: 'status', op: 'eq', value: 'ACTIVE' }, { field: 'isActive', op: 'eq', value: true }] } }))
+                .toThrow('Cannot filter on computed field: status');
+            expect(() => builder.buildSelectQuery({ tableName: 'users', fields: ['id'], filter: { not: { field: 'status', op: 'eq', value: 'ACTIVE' } } }))
+                .toThrow('Cannot filter on computed field: status');
+        });
+    });
+
+    describe('Value Coercion', () => {
+        const typedBuilder = () => new QueryBuilder(SCHEMA, {
+            id: { dbField: 'accounts.id', type: 'uuid' },
+            balance: { dbField: 'accounts.balance', type: 'bigint' },
+            rating: { dbField: 'accounts.rating', type: 'number' },
+            isActive: { dbField: 'accounts.is_active', type: 'boolean' },
+            openedAt: { dbField: 'accounts.opened_at', type: 'timestamp' },
+            tier: { dbField: 'accounts.tier', type: 'string', enumValues: ['free', 'pro'] },
+            code: { dbField: 'accounts.code', type: 'string', validate: value => /^[A-Z]{3}$/.test(value) }
+        });
+
+        test('should coerce filter values to their field types', () => {
+            const { selectQuery } = typedBuilder().buildSelectQuery({
+                tableName: 'accounts',
+                fields: ['id'],
+                queryParams: {
+                    balance_gt: '9007199254740993',
+                    rating_between: '3,4.5',
+                    isActive_eq: '1',
+                    tier_in: 'free,pro',
+                    openedAt_gte: '2026-01-01T00:00:00Z'
+                },
+                filter: { field: 'balance', op: 'lt', value: 10n ** 20n }
+            });
+
+            expect(selectQuery.values.slice(0, 8)).toEqual([
+                '9007199254740993', 3, 4.5, true, 'free', 'pro', '2026-01-01T00:00:00Z', 10n ** 20n
+            ]);
+        });
+
+        test('should name the field, operator and value when a filter value is invalid', () => {
+            const build = (queryParams: Record<string, any>) => () =>
+                typedBuilder().buildSelectQuery({ tableName: 'accounts', fields: ['id'], queryParams });
+
+            expect(build({ id_eq: 'abc' })).toThrow('Invalid value for field id with operator eq: "abc" (expected a UUID)');
+            expect(build({ rating_gte: 'ten' })).toThrow('Invalid value for field rating with operator gte: "ten" (expected a number)');
+            expect(build({ balance_in: '1,2.5' })).toThrow('Invalid value for field balance with operator in: "2.5" (expected an integer)');
+            expect(build({ isActive_eq: 'maybe' })).toThrow('Invalid value for field isActive with operator eq: "maybe" (expected a boolean)');
+            expect(build({ openedAt_lt: 'yesterday' })).toThrow('(expected an ISO timestamp)');
+            expect(build({ tier_eq: 'gold' })).toThrow('Invalid value for field tier with operator eq: "gold" (expected one of free, pro)');
+            expect(build({ code_ne: 'abc' })).toThrow('Invalid value for field code with operator ne: "abc" (failed validation)');
+        });
+
+        test('should leave pattern and custom operator values untouched', () => {
+            const { selectQuery } = typedBuilder().buildSelectQuery({
+                tableName: 'accounts',
+                fields: ['id'],
+                queryParams: { code_startsWith: 'a', tier_like: 'fr' }
+            });
+
+            expect(selectQuery.values.slice(0, 2)).toEqual(['a%', '%fr%']);
+        });
     });
 
     describe('Full-Text Search', () => {
@@ -134,14 +527,158 @@ describe('QueryBuilder Test Suite', () => {
                 offset: 0
             });
 
-            expect(selectQuery.text).toContain("to_tsvector('english', users.username) @@('developer')");
-            expect(selectQuery.text).toContain('plainto_tsquery');
-            expect(selectQuery.text).toContain('phraseto_tsquery');
-            expect(selectQuery.text).toContain('websearch_to_tsquery');
+            expect(selectQuery.text).toContain("to_tsvector('english', users.username) @@ to_tsquery($1)");
+            expect(selectQuery.text).toContain('@@ plainto_tsquery($2)');
+            expect(selectQuery.text).toContain('@@ phraseto_tsquery($3)');
+            expect(selectQuery.text).toContain('@@ websearch_to_tsquery($4)');
+            expect(selectQuery.text).not.toContain("'developer'");
+            expect(selectQuery.values).toEqual(['developer', 'developer', 'developer', 'developer', 10, 0]);
+        });
+
+        test('should bind a regconfig and convert text fields to tsvector', () => {
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { username_ftsWeb: { query: 'senior dev', config: 'simple' } }
+            });
+
+            expect(selectQuery.text).toContain('WHERE to_tsvector($1::regconfig, users.username) @@ websearch_to_tsquery($1::regconfig, $2)');
+            expect(selectQuery.values.slice(0, 2)).toEqual(['simple', 'senior dev']);
+            expect(() => builder.buildSelectQuery({ tableName: 'users', queryParams: { isActive_fts: 'x' } }))
+                .toThrow('Full-text search requires a tsvector or text field: users.is_active');
+        });
+
+        test('should rank and highlight search results', () => {
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'username'],
+                requiredFilters: { isActive: true },
+                search: {
+                    field: 'ftsVector',
+                    query: 'node developer',
+                    config: 'english',
+                    rank: 'ts_rank_cd',
+                    headline: { field: 'username', alias: 'snippet', options: 'MaxWords=10' }
+                },
+                sortField: 'createdAt',
+                limit: 5,
+                offset: 0
+            });
+
+            const tsquery = 'websearch_to_tsquery($1::regconfig, $2)';
+            expect(selectQuery.text).toContain(
+                `SELECT users.id AS "id", users.username AS "username", ts_rank_cd(to_tsvector('english', users.username), ${tsquery}) AS rank, ` +
+                `ts_headline($1::regconfig, users.username, ${tsquery}, $4) AS snippet`
+            );
+            expect(selectQuery.text).toContain(`WHERE users.is_active = $3 AND to_tsvector('english', users.username) @@ ${tsquery}`);
+            expect(selectQuery.text).toContain('ORDER BY rank DESC, users.created_at DESC');
+            expect(selectQuery.values).toEqual(['english', 'node developer', true, 'MaxWords=10', 5, 0]);
+            expect(countQuery!.text).not.toContain('ts_rank_cd');
+            expect(countQuery!.values).toEqual(['english', 'node developer', true]);
+        });
+
+        test('should bind exactly the placeholders the count query uses', () => {
+            const placeholders = (text: string) => Array.from(new Set(Array.from(text.matchAll(/\$(\d+)/g), match => Number(match[1])))).sort((a, b) => a - b);
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'username'],
+                queryParams: { isActive: true },
+                search: { field: 'username', query: 'cat', headline: { field: 'username', options: 'MaxWords=5' } },
+                limit: 5
+            });
+
+            expect(placeholders(countQuery!.text)).toEqual(countQuery!.values.map((_, index) => index + 1));
+            expect(placeholders(selectQuery.text)).toEqual(selectQuery.values.map((_, index) => index + 1));
+            expect(selectQuery.text).toContain('ts_headline(users.username, websearch_to_tsquery($1), $3) AS headline');
+            expect(countQuery!.values).toEqual(['cat', true]);
+        });
+    });
+
+    describe('JSON Paths', () => {
+        test('should select, filter and sort by dotted keys inside a jsonb field', () => {
+            const { selectQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'metadata.address.city'],
+                queryParams: { 'metadata.address.city_eq': 'Chennai' },
+                sortField: 'metadata.address.city',
+                sortDirection: 'ASC'
+            });
+
+            expect(selectQuery.text).toContain(`SELECT users.id AS "id", (users.metadata->'address'->>'city') AS "metadata.address.city"`);
+            expect(selectQuery.text).toContain('WHERE (users.metadata #>> $1) = $2');
+            expect(selectQuery.text).toContain(`ORDER BY (users.metadata->'address'->>'city') ASC`);
+            expect(selectQuery.values.slice(0, 2)).toEqual([['address', 'city'], 'Chennai']);
+            expect(() => builder.buildSelectQuery({ tableName: 'users', queryParams: { "metadata.city'_eq": 'x' } }))
+                .toThrow("Invalid filter field: metadata.city'");
+        });
+
+        test('should cast declared JSON path mappings and map them back', () => {
+            const jsonMappings: Record<string, FieldMapping> = {
+                ...userFieldMappings,
+                score: { dbField: 'users.metadata', jsonPath: ['stats', 'score'], type: 'number' },
+                firstTag: { dbField: 'users.metadata', jsonPath: ['tags', '0'], type: 'string' }
+            };
+            const jsonBuilder = new QueryBuilder(SCHEMA, jsonMappings);
+
+            const { selectQuery } = jsonBuilder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'score', 'firstTag'],
+                queryParams: { score_gte: 5, metadata_jsonPathExists: { path: '$.tags[*] ? (@ == $tag)', vars: { tag: 'vip' } } }
+            });
+
+            expect(selectQuery.text).toContain(`(users.metadata->'stats'->>'score')::numeric AS "score", (users.metadata->'tags'->>0) AS "firstTag"`);
+            expect(selectQuery.text).toContain('(users.metadata #>> $1)::numeric >= $2');
+            expect(selectQuery.text).toContain('jsonb_path_exists(users.metadata, $3::jsonpath, $4::jsonb)');
+            expect(selectQuery.values.slice(0, 4)).toEqual([['stats', 'score'], 5, '$.tags[*] ? (@ == $tag)', '{"tag":"vip"}']);
+
+            const mapper = new ResponseMapper(jsonBuilder.getFieldMappings());
+            expect(mapper.mapResponse({ id: 'u1', score: 7, firstTag: 'vip', 'metadata.address.city': 'Chennai' }))
+                .toEqual({ id: 'u1', score: 7, firstTag: 'vip', metadata: { address: { city: 'Chennai' } } });
         });
     });
 
     describe('Joins and CTEs', () => {
+        test('should build structured joins with field-mapped ON conditions', () => {
+            const builderWithJoin = new QueryBuilder(SCHEMA, userFieldMappings)
+                .join({
+                    type: 'LEFT',
+                    table: 'profiles',
+                    alias: 'profile',
+                    on: [{ left: 'profileId', right: 'profile.id' }],
+                    fieldMappings: {
+                        id: { dbField: 'profile.id', type: 'uuid' },
+                        country: { dbField: 'profile.country', type: 'string' }
+                    }
+                });
+
+            const { selectQuery } = builderWithJoin.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'username', 'profile.country'],
+                queryParams: { 'profile.country_eq': 'IN' },
+                sortField: 'profile.country',
+                sortDirection: 'ASC'
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain('SELECT users.id AS "id", users.username AS "username", profile.country AS "profile.country"');
+            expect(normalizedQuery).toContain('FROM public.users LEFT JOIN profiles profile ON users.profile_id = profile.id');
+            expect(normalizedQuery).toContain('WHERE profile.country = $1');
+            expect(normalizedQuery).toContain('ORDER BY profile.country ASC');
+        });
+
+        test('should validate join types and ON fields', () => {
+            const joinBuilder = new QueryBuilder(SCHEMA, userFieldMappings);
+
+            expect(() => joinBuilder.join({ type: 'LATERAL' as any, table: 'profiles', on: [{ left: 'profileId', right: 'id' }] }))
+                .toThrow('Invalid join type: LATERAL');
+            expect(() => joinBuilder.join({ type: 'INNER', table: 'profiles', on: [{ left: 'profileId', right: 'profiles.nope' }] }))
+                .toThrow('Invalid join field: profiles.nope');
+            expect(() => joinBuilder.join({ type: 'INNER', table: 'profiles', on: [] }))
+                .toThrow('requires at least one ON condition');
+            expect(() => joinBuilder.addJoin('LEFT JOIN LATERAL (SELECT 1) x', 'profiles', 'true'))
+                .toThrow('Invalid join type');
+        });
+
         test('should handle joins correctly', () => {
             const builderWithJoin = new QueryBuilder(SCHEMA, userFieldMappings, true)
                 .addJoin('LEFT JOIN', 'profiles', 'users.profile_id = profiles.id');
@@ -174,6 +711,67 @@ describe('QueryBuilder Test Suite', () => {
         });
     });
 
+    describe('Parameterized CTEs', () => {
+        test('should renumber CTE placeholders ahead of the main query parameters', () => {
+            const cteBuilder = new QueryBuilder(SCHEMA, userFieldMappings)
+                .addWithClause('recent', { text: "SELECT id FROM users WHERE created_at > $1 AND note <> '$1'", values: ['2024-01-01'] })
+                .addWithClause('named', { text: 'SELECT id FROM users WHERE username = $1', values: ['bob'] }, { materialized: false });
+
+            const { selectQuery, countQuery } = cteBuilder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { username_like: 'jo' },
+                limit: 5,
+                offset: 0
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain("WITH recent AS (SELECT id FROM users WHERE created_at > $1 AND note <> '$1'), named AS NOT MATERIALIZED (SELECT id FROM users WHERE username = $2)");
+            expect(normalizedQuery).toContain('WHERE users.username ILIKE $3');
+            expect(normalizedQuery).toContain('LIMIT $4 OFFSET $5');
+            expect(selectQuery.values).toEqual(['2024-01-01', 'bob', '%jo%', 5, 0]);
+            expect(countQuery!.values).toEqual(['2024-01-01', 'bob', '%jo%']);
+        });
+
+        test('should accept another builder and recursive CTEs with column lists', () => {
+            const activeUsers = new QueryBuilder(SCHEMA, userFieldMappings);
+            const cteBuilder = new QueryBuilder(SCHEMA, userFieldMappings)
+                .addWithClause('active', { builder: activeUsers, options: { tableName: 'users', fields: ['id'], requiredFilters: { isActive: true }, limit: 100 } })
+                .addWithClause('tree', {
+                    text: 'SELECT id, parent_id FROM nodes WHERE id = $1 UNION ALL SELECT n.id, n.parent_id FROM nodes n JOIN tree t ON n.parent_id = t.id',
+                    values: ['root']
+                }, { recursive: true, columns: ['id', 'parent_id'] });
+
+            const query = cteBuilder.buildAggregateQuery({
+                tableName: 'users',
+                aggregates: { total: { function: 'COUNT', field: 'id' } },
+                requiredFilters: { isActive: false }
+            });
+
+            const normalizedQuery = query.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain('WITH RECURSIVE active AS (');
+            expect(normalizedQuery).toContain('WHERE users.is_active = $1), tree(id, parent_id) AS (SELECT id, parent_id FROM nodes WHERE id = $2 UNION ALL');
+            expect(normalizedQuery).toContain('WHERE users.is_active = $3');
+            expect(query.values).toEqual([true, 'root', false]);
+        });
+
+        test('should embed builder CTEs without ordering or pagination', () => {
+            const activeUsers = new QueryBuilder(SCHEMA, userFieldMappings);
+            const cteBuilder = new QueryBuilder(SCHEMA, userFieldMappings)
+                .addWithClause('active', {
+                    builder: activeUsers,
+                    options: { tableName: 'users', fields: ['id', 'username'], requiredFilters: { isActive: true }, sortField: 'username', limit: 5, offset: 10 }
+                });
+
+            const { selectQuery } = cteBuilder.buildSelectQuery({ tableName: 'users', fields: ['id'], limit: 20 });
+
+            const cte = selectQuery.text.replace(/\s+/g, ' ').match(/WITH active AS \((.*?)\) SELECT/)![1];
+            expect(cte.trim()).toBe('SELECT users.id AS "id", users.username AS "username" FROM public.users WHERE users.is_active = $1');
+            expect(cte).not.toMatch(/ORDER BY|LIMIT|OFFSET/);
+            expect(selectQuery.values).toEqual([true, 20, 0]);
+        });
+    });
+
     describe('Aggregation Queries', () => {
         test('should generate aggregation queries with GROUP BY', () => {
             const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings, true);
@@ -192,6 +790,577 @@ describe('QueryBuilder Test Suite', () => {
             expect(aggregateQuery.text).toContain('MAX(profiles.age) AS maxAge');
             expect(aggregateQuery.text).toContain('GROUP BY profiles.country');
         });
+
+        test('should support DISTINCT, FILTER, HAVING, ORDER BY and LIMIT', () => {
+            const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings);
+            const aggregateQuery = profileBuilder.buildAggregateQuery({
+                tableName: 'profiles',
+                aggregates: {
+                    users: { function: 'count', field: 'userId', distinct: true },
+                    adults: { function: 'COUNT', field: '*', filter: { field: 'age', op: 'gte', value: 18 } }
+                },
+                groupBy: ['country'],
+                requiredFilters: { bio: 'x' },
+                having: { or: [{ field: 'users', op: 'gt', value: 10 }, { field: 'adults', op: 'gte', value: 5 }] },
+                sort: [{ field: 'users', direction: 'DESC' }, { field: 'country', nulls: 'LAST' }],
+                limit: 20,
+                offset: 40
+            });
+
+            const text = aggregateQuery.text.replace(/\s+/g, ' ');
+            expect(text).toContain(
+                'SELECT profiles.country AS "country", COUNT(DISTINCT profiles.user_id) AS users, COUNT(*) FILTER (WHERE profiles.age >= $1) AS adults'
+            );
+            expect(text).toContain('WHERE profiles.bio = $2 GROUP BY profiles.country');
+            expect(text).toContain('HAVING (COUNT(DISTINCT profiles.user_id) > $3 OR COUNT(*) FILTER (WHERE profiles.age >= $1) >= $4)');
+            expect(text).toContain('ORDER BY users DESC, profiles.country ASC NULLS LAST LIMIT $5 OFFSET $6');
+            expect(aggregateQuery.values).toEqual([18, 'x', 10, 5, 20, 40]);
+        });
+
+        test('should build ROLLUP, CUBE and GROUPING SETS', () => {
+            const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings);
+            const aggregates = { total: { function: 'SUM', field: 'age' } };
+
+            expect(profileBuilder.buildAggregateQuery({ tableName: 'profiles', aggregates, groupBy: ['country', 'bio'], grouping: 'ROLLUP' }).text)
+                .toContain('GROUP BY ROLLUP (profiles.country, profiles.bio)');
+            expect(profileBuilder.buildAggregateQuery({ tableName: 'profiles', aggregates, groupBy: ['country'], grouping: 'CUBE' }).text)
+                .toContain('GROUP BY CUBE (profiles.country)');
+
+            const setsQuery = profileBuilder.buildAggregateQuery({
+                tableName: 'profiles',
+                aggregates,
+                groupingSets: [['country', 'bio'], ['country'], []]
+            });
+            expect(setsQuery.text).toContain('SELECT profiles.country AS "country", profiles.bio AS "bio", SUM(profiles.age) AS total');
+            expect(setsQuery.text).toContain('GROUP BY GROUPING SETS ((profiles.country, profiles.bio), (profiles.country), ())');
+        });
+
+        test('should reject unknown aggregate functions, fields and sort targets', () => {
+            const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings);
+            const build = (options: Partial<AggregateQueryOptions>) =>
+                profileBuilder.buildAggregateQuery({ tableName: 'profiles', aggregates: { total: { function: 'COUNT', field: 'id' } }, ...options });
+
+            expect(() => build({ aggregates: { x: { function: 'pg_sleep', field: 'age' } } })).toThrow('Unsupported aggregate function: pg_sleep');
+            expect(() => build({ aggregates: { x: { function: 'SUM', field: 'age); DROP TABLE x; --' } } }))
+                .toThrow('Invalid aggregate field: age); DROP TABLE x; --');
+            expect(() => build({ groupBy: ['nope'] })).toThrow('Invalid group by field: nope');
+            expect(() => build({ sort: [{ field: 'age' }] })).toThrow('Invalid sort field: age');
+            expect(() => build({ having: { field: 'age', op: 'gt', value: 1 } })).toThrow('Invalid filter field: age');
+        });
+    });
+
+    describe('Time Series', () => {
+        test('should bucket aggregates and fill gaps with generate_series', () => {
+            const query = builder.buildTimeSeriesQuery({
+                tableName: 'users',
+                dateField: 'createdAt',
+                interval: 'day',
+                range: { start: '2026-10-01T00:00:00Z', end: '2026-10-08T00:00:00Z' },
+                timeZone: 'Asia/Kolkata',
+                aggregates: {
+                    signups: { function: 'COUNT', field: 'id' },
+                    latest: { function: 'MAX', field: 'createdAt' }
+                },
+                requiredFilters: { isActive: true }
+            });
+
+            const text = query.text.replace(/\s+/g, ' ');
+            const local = (expression: string) => `${expression}::timestamptz AT TIME ZONE 'Asia/Kolkata'`;
+            expect(text).toContain(`SELECT date_trunc('day', ${local('users.created_at')}) AS bucket, COUNT(users.id) AS signups`);
+            expect(text).toContain('WHERE users.is_active = $1 AND users.created_at >= $2 AND users.created_at < $3 GROUP BY');
+            expect(text).toContain(`GROUP BY date_trunc('day', ${local('users.created_at')})`);
+            expect(text).toContain(`generate_series(date_trunc('day', ${local('$4')}), ${local('$5')}, interval '1 day') AS bucket WHERE bucket < ${local('$5')}`);
+            expect(text).toContain(
+                "SELECT series.bucket AT TIME ZONE 'Asia/Kolkata' AS bucket, COALESCE(data.signups, 0) AS signups, data.latest AS latest " +
+                'FROM series LEFT JOIN data ON data.bucket = series.bucket ORDER BY series.bucket'
+            );
+            expect(query.values).toEqual([true, '2026-10-01T00:00:00.000Z', '2026-10-08T00:00:00.000Z', '2026-10-01T00:00:00.000Z', '2026-10-08T00:00:00.000Z']);
+        });
+
+        test('should read range bounds in the series time zone', () => {
+            const query = builder.buildTimeSeriesQuery({
+                tableName: 'users',
+                dateField: 'createdAt',
+                interval: 'day',
+                range: { start: '2026-01-01', end: '2026-01-08T12:00' },
+                timeZone: 'America/New_York',
+                aggregates: { signups: { function: 'COUNT', field: 'id' } }
+            });
+
+            expect(query.text.replace(/\s+/g, ' ')).toContain('WHERE users.created_at >= $1 AND users.created_at < $2');
+            expect(query.values).toEqual(['2026-01-01T05:00:00.000Z', '2026-01-08T17:00:00.000Z', '2026-01-01T05:00:00.000Z', '2026-01-08T17:00:00.000Z']);
+
+            const dateBuilder = new QueryBuilder(SCHEMA, { id: { dbField: 'events.id', type: 'uuid' }, day: { dbField: 'events.day', type: 'date' } });
+            const dateQuery = dateBuilder.buildTimeSeriesQuery({
+                tableName: 'events',
+                dateField: 'day',
+                interval: 'day',
+                range: { start: new Date('2026-01-01T05:00:00Z'), end: '2026-01-08' },
+                timeZone: 'America/New_York',
+                aggregates: { total: { function: 'COUNT', field: '*' } }
+            });
+            expect(dateQuery.values).toEqual(['2026-01-01', '2026-01-08', '2026-01-01', '2026-01-08']);
+        });
+
+        test('should bucket plain aggregate queries and validate inputs', () => {
+            const aggregateQuery = builder.buildAggregateQuery({
+                tableName: 'users',
+                aggregates: { total: { function: 'COUNT', field: '*' } },
+                timeBucket: { field: 'createdAt', interval: 'month', alias: 'month' },
+                sort: [{ field: 'month', direction: 'DESC' }]
+            });
+
+            expect(aggregateQuery.text).toContain(`GROUP BY date_trunc('month', users.created_at::timestamptz AT TIME ZONE 'UTC')`);
+            expect(aggregateQuery.text).toContain('ORDER BY month DESC');
+
+            const base = { tableName: 'users', dateField: 'createdAt', interval: 'day' as const, range: { start: '2026-01-01', end: '2026-02-01' } };
+            expect(() => builder.buildTimeSeriesQuery({ ...base, timeZone: "UTC'; DROP TABLE users; --" })).toThrow('Invalid time zone');
+            expect(() => builder.buildTimeSeriesQuery({ ...base, timeZone: 'Mars/Olympus' })).toThrow('Invalid time zone: Mars/Olympus');
+            expect(() => builder.buildTimeSeriesQuery({ ...base, interval: 'minute' as any })).toThrow('Invalid time bucket interval: minute');
+            expect(() => builder.buildTimeSeriesQuery({ ...base, dateField: 'username' })).toThrow('Time series requires a date or timestamp field: username');
+        });
+    });
+
+    describe('Window Functions', () => {
+        test('should select window columns resolved through the field mappings', () => {
+            const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings);
+            const { selectQuery, countQuery } = profileBuilder.buildSelectQuery({
+                tableName: 'profiles',
+                fields: ['id', 'age'],
+                windows: [
+                    { alias: 'rowNum', fn: 'row_number', orderBy: [{ field: 'createdAt' }] },
+                    { alias: 'ageRank', fn: 'dense_rank', partitionBy: ['country'], orderBy: [{ field: 'age', direction: 'DESC', nulls: 'LAST' }] },
+                    {
+                        alias: 'runningAge',
+                        fn: 'sum',
+                        field: 'age',
+                        orderBy: [{ field: 'createdAt' }],
+                        frame: { start: 'UNBOUNDED PRECEDING', end: 'CURRENT ROW' }
+                    },
+                    { alias: 'prevAge', fn: 'lag', field: 'age', offset: 1, orderBy: [{ field: 'createdAt' }] },
+                    { alias: 'avgNearby', fn: 'avg', field: 'age', orderBy: [{ field: 'age' }], frame: { mode: 'RANGE', start: { preceding: 5 }, end: { following: 5 } } }
+                ]
+            });
+
+            expect(selectQuery.text).toContain([
+                'SELECT profiles.id AS "id", profiles.age AS "age"',
+                'row_number() OVER (ORDER BY profiles.created_at ASC) AS "rowNum"',
+                'dense_rank() OVER (PARTITION BY profiles.country ORDER BY profiles.age DESC NULLS LAST) AS "ageRank"',
+                'sum(profiles.age) OVER (ORDER BY profiles.created_at ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS "runningAge"',
+                'lag(profiles.age, 1) OVER (ORDER BY profiles.created_at ASC) AS "prevAge"',
+                'avg(profiles.age) OVER (ORDER BY profiles.age ASC RANGE BETWEEN 5 PRECEDING AND 5 FOLLOWING) AS "avgNearby"'
+            ].join(', '));
+            expect(countQuery!.text).not.toContain('OVER');
+
+            const mapper = new ResponseMapper(profileBuilder.getFieldMappings());
+            expect(mapper.mapResponse({ id: 'p1', age: 30, rowNum: '1', prevAge: null }, ['rowNum', 'prevAge']))
+                .toEqual({ id: 'p1', age: 30, rowNum: '1', prevAge: null });
+        });
+
+        test('should reject unknown functions, fields, aliases and frames', () => {
+            const profileBuilder = new QueryBuilder(SCHEMA, profileFieldMappings);
+            const build = (window: any) => profileBuilder.buildSelectQuery({ tableName: 'profiles', windows: [window] });
+
+            expect(() => build({ alias: 'x', fn: 'pg_sleep' })).toThrow('Unsupported window function: pg_sleep');
+            expect(() => build({ alias: 'x', fn: 'sum' })).toThrow('Window function sum requires a field');
+            expect(() => build({ alias: 'x', fn: 'sum', field: 'salary' })).toThrow('Invalid window field: salary');
+            expect(() => build({ alias: 'x', fn: 'rank', partitionBy: ['nope'] })).toThrow('Invalid window field: nope');
+            expect(() => build({ alias: 'x"; --', fn: 'rank' })).toThrow('Invalid window alias');
+            expect(() => build({ alias: 'x', fn: 'ntile' })).toThrow('Window function ntile requires an offset');
+            expect(() => build({ alias: 'x', fn: 'sum', field: 'age', frame: { start: { preceding: -1 } } }))
+                .toThrow('Invalid window frame offset: -1');
+        });
+    });
+
+    describe('Relations', () => {
+        const emailFieldMappings: Record<string, FieldMapping> = {
+            id: { dbField: 'user_emails.id', type: 'uuid' },
+            userId: { dbField: 'user_emails.user_id', type: 'uuid' },
+            emailAddress: { dbField: 'user_emails.email_address', type: 'string' },
+            isPrimary: { dbField: 'user_emails.is_primary', type: 'boolean' },
+            verifiedAt: { dbField: 'user_emails.verified_at', type: 'timestamp' }
+        };
+        const orderFieldMappings: Record<string, FieldMapping> = {
+            id: { dbField: 'orders.id', type: 'uuid' },
+            userId: { dbField: 'orders.user_id', type: 'uuid' },
+            total: { dbField: 'orders.total', type: 'money' },
+            createdAt: { dbField: 'orders.created_at', type: 'timestamp' }
+        };
+        const itemFieldMappings: Record<string, FieldMapping> = {
+            id: { dbField: 'order_items.id', type: 'bigint' },
+            orderId: { dbField: 'order_items.order_id', type: 'uuid' },
+            quantity: { dbField: 'order_items.quantity', type: 'smallint' }
+        };
+
+        beforeEach(() => {
+            builder
+                .addRelation('emails', { type: 'hasMany', table: 'user_emails', foreignKey: 'userId', fieldMappings: emailFieldMappings })
+                .addRelation('profile', { type: 'belongsTo', table: 'profiles', foreignKey: 'profileId', fieldMappings: profileFieldMappings })
+                .addRelation('orders', {
+                    type: 'hasMany',
+                    table: 'orders',
+                    foreignKey: 'userId',
+                    fieldMappings: orderFieldMappings,
+                    relations: { items: { type: 'hasMany', table: 'order_items', foreignKey: 'orderId', fieldMappings: itemFieldMappings } }
+                });
+        });
+
+        test('should select included relations as correlated json subqueries', () => {
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id', 'username'],
+                include: ['emails', 'profile']
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain(
+                `(SELECT COALESCE(json_agg(json_build_object('id', user_emails.id, 'userId', user_emails.user_id, 'emailAddress', user_emails.email_address, ` +
+                `'isPrimary', user_emails.is_primary, 'verifiedAt', user_emails.verified_at)), '[]'::json) ` +
+                `FROM (SELECT * FROM public.user_emails user_emails WHERE user_emails.user_id = users.id) user_emails) AS "emails"`
+            );
+            expect(normalizedQuery).toContain(
+                `(SELECT json_build_object('id', profiles.id, 'userId', profiles.user_id, 'bio', profiles.bio, 'age', profiles.age, ` +
+                `'country', profiles.country, 'createdAt', profiles.created_at) FROM public.profiles profiles WHERE profiles.id = users.profile_id LIMIT 1) AS "profile"`
+            );
+            expect(countQuery!.text).not.toContain('json_agg');
+        });
+
+        test('should filter, sort and limit each relation with its own parameters', () => {
+            const { selectQuery, countQuery } = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { isActive: true },
+                include: {
+                    emails: { fields: ['emailAddress'], filter: { field: 'isPrimary', op: 'isTrue' } },
+                    orders: {
+                        fields: ['total'],
+                        filter: { field: 'createdAt', op: 'gte', value: '2024-01-01' },
+                        sort: [{ field: 'createdAt', direction: 'DESC' }],
+                        limit: 5,
+                        include: { items: { fields: ['quantity'], filter: { field: 'quantity', op: 'gt', value: '1' } } }
+                    }
+                }
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain("json_build_object('emailAddress', user_emails.email_address, 'id', user_emails.id)");
+            expect(normalizedQuery).toContain('WHERE user_emails.user_id = users.id AND user_emails.is_primary = $2) user_emails');
+            expect(normalizedQuery).toContain(
+                "json_agg(json_build_object('total', (orders.total)::text, 'id', orders.id, 'items', (SELECT COALESCE(json_agg(json_build_object('quantity', order_items.quantity, 'id', (order_items.id)::text)), '[]'::json) " +
+                'FROM (SELECT * FROM public.order_items order_items WHERE order_items.order_id = orders.id AND order_items.quantity > $3) order_items)) ORDER BY orders.created_at DESC, orders.id ASC)'
+            );
+            expect(normalizedQuery).toContain('WHERE orders.user_id = users.id AND orders.created_at::timestamp >= $4 ORDER BY orders.created_at DESC, orders.id ASC LIMIT $5) orders) AS "orders"');
+            expect(normalizedQuery).toContain('WHERE users.is_active = $1');
+            expect(normalizedQuery).toContain('LIMIT $6 OFFSET $7');
+            expect(selectQuery.values).toEqual([true, true, 1, '2024-01-01', 5, 10, 0]);
+            expect(countQuery!.values).toEqual([true]);
+
+            const cached = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { isActive: true },
+                include: { emails: { fields: ['emailAddress'], filter: { field: 'isPrimary', op: 'isTrue' } } },
+                limit: 20
+            });
+            const repeated = builder.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { isActive: true },
+                include: { emails: { fields: ['emailAddress'], filter: { field: 'isPrimary', op: 'isTrue' } } },
+                limit: 20
+            });
+            expect(repeated.selectQuery).toEqual(cached.selectQuery);
+            expect(repeated.selectQuery.values).toEqual([true, true, 20, 0]);
+        });
+
+        test('should reject unknown relations and invalid relation options', () => {
+            const build = (include: any) => builder.buildSelectQuery({ tableName: 'users', include });
+
+            expect(() => build(['payments'])).toThrow('Invalid relation: payments');
+            expect(() => build({ emails: { fields: ['password'] } })).toThrow('No valid fields specified for selection');
+            expect(() => build({ emails: { filter: { field: 'password', op: 'eq', value: 'x' } } })).toThrow('Invalid filter field: password');
+            expect(() => build({ emails: { limit: -1 } })).toThrow('Invalid limit for relation emails: -1');
+            expect(() => build({ profile: { limit: 1 } })).toThrow('Relation profile returns a single row and cannot be sorted or limited');
+            expect(() => build({ orders: { include: ['emails'] } })).toThrow('Invalid relation: emails');
+
+            expect(() => builder.addRelation('username', { type: 'hasMany', table: 'x', foreignKey: 'userId', fieldMappings: emailFieldMappings }))
+                .toThrow('Relation username conflicts with a mapped field');
+            expect(() => builder.addRelation('aliases', { type: 'hasMany', table: 'user_emails', foreignKey: 'ownerId', fieldMappings: emailFieldMappings }))
+                .toThrow('Invalid key field for relation aliases: ownerId');
+            expect(() => builder.addRelation('state', { type: 'belongsTo', table: 'states', foreignKey: 'status', fieldMappings: { id: { dbField: 'states.id', type: 'string' } } }))
+                .toThrow('Relation state key must be a plain column: status');
+        });
+
+        test('should reject relations that reference their own table', () => {
+            const categoryFieldMappings: Record<string, FieldMapping> = {
+                id: { dbField: 'categories.id', type: 'uuid' },
+                parentId: { dbField: 'categories.parent_id', type: 'uuid' },
+                name: { dbField: 'categories.name', type: 'string' }
+            };
+            const categories = new QueryBuilder(SCHEMA, categoryFieldMappings);
+
+            expect(() => categories.addRelation('children', { type: 'hasMany', table: 'categories', foreignKey: 'parentId', fieldMappings: categoryFieldMappings }))
+                .toThrow('Relation children cannot reference its own table: categories');
+            expect(() => categories.addRelation('parent', { type: 'belongsTo', table: 'public.categories', foreignKey: 'parentId', fieldMappings: categoryFieldMappings }))
+                .toThrow('Relation parent cannot reference its own table: public.categories');
+            expect(() => builder.addRelation('orders', {
+                type: 'hasMany',
+                table: 'orders',
+                foreignKey: 'userId',
+                fieldMappings: orderFieldMappings,
+                relations: { replies: { type: 'hasMany', table: 'orders', foreignKey: 'userId', references: 'id', fieldMappings: orderFieldMappings } }
+            })).toThrow('Relation replies cannot reference its own table: orders');
+        });
+
+        test('should map included relations through their own field mappings', () => {
+            const mapper = new ResponseMapper(builder.getFieldMappings(), { relations: builder.getRelations() });
+            const row = mapper.mapResponse({
+                id: 'u1',
+                emails: [{ emailAddress: 'ann@example.com', isPrimary: true, verifiedAt: '2024-02-01T10:00:00+00:00' }],
+                profile: null,
+                orders: [{ id: 'o1', total: '$12.50', items: [{ id: '9007199254740993', quantity: 2 }] }]
+            });
+
+            expect(row).toEqual({
+                id: 'u1',
+                emails: [{ emailAddress: 'ann@example.com', isPrimary: true, verifiedAt: new Date('2024-02-01T10:00:00Z') }],
+                profile: null,
+                orders: [{ id: 'o1', total: '$12.50', items: [{ id: '9007199254740993', quantity: 2 }] }]
+            });
+            expect(mapper.mapResponse({ id: 'u2', profile: '{"country":"IN","user_id":"u2"}' }))
+                .toEqual({ id: 'u2', profile: { country: 'IN', userId: 'u2' } });
+        });
+    });
+
+    describe('Scopes', () => {
+        const tenantFieldMappings: Record<string, FieldMapping> = {
+            ...userFieldMappings,
+            tenantId: { dbField: 'users.tenant_id', type: 'string' },
+            deletedAt: { dbField: 'users.deleted_at', type: 'timestamp', softDelete: true }
+        };
+        let scoped: QueryBuilder;
+
+        beforeEach(() => {
+            scoped = new QueryBuilder(SCHEMA, tenantFieldMappings)
+                .addScope('tenant', { tenantId: 't1' })
+                .addScope('softDelete', { deletedAt: null });
+        });
+
+        test('should apply scopes to select and count queries', () => {
+            const { selectQuery, countQuery } = scoped.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { isActive: true }
+            });
+
+            expect(selectQuery.text).toContain('WHERE users.is_active = $1 AND users.tenant_id = $2 AND users.deleted_at IS NULL');
+            expect(selectQuery.values).toEqual([true, 't1', 10, 0]);
+            expect(countQuery!.text).toContain('WHERE users.is_active = $1 AND users.tenant_id = $2 AND users.deleted_at IS NULL');
+            expect(countQuery!.values).toEqual([true, 't1']);
+        });
+
+        test('should keep scopes when request input targets the scoped fields', () => {
+            const { selectQuery } = scoped.buildSelectQuery({
+                tableName: 'users',
+                fields: ['id'],
+                queryParams: { tenantId: 't2', deletedAt_isNotNull: true },
+                excludeFields: ['tenantId', 'deletedAt'],
+                filter: { or: [{ field: 'tenantId', op: 'eq', value: 't2' }, { field: 'username', op: 'eq', value: 'x' }] }
+            });
+
+            const normalizedQuery = selectQuery.text.replace(/\s+/g, ' ');
+            expect(normalizedQuery).toContain('WHERE users.deleted_at IS NOT NULL AND (users.tenant_id = $1 OR users.username = $2) AND users.tenant_id = $3 AND users.deleted_at IS NULL');
+            expect(selectQuery.values).toEqual(['t2', 'x', 't1', 10, 0]);
+        });
+
+        test('should apply scopes to aggregate and time series queries', () => {
+            const aggregate = scoped.buildAggregateQuery({
+                tableName: 'users',
+                aggregates: { total: { function: 'COUNT', field: '*' } },
+                groupBy: ['isActive']
+            });
+            expect(aggregate.text).toContain('WHERE users.tenant_id = $1 AND users.deleted_at IS NULL');
+            expect(aggregate.values).toEqual(['t1']);
+
+            const series = scoped.buildTimeSeriesQuery({
+                tableName: 'users',
+                dateField: 'createdAt',
+                interval: 'day',
+                range: { start: '2024-01-01', end: '2024-01-08' },
+                aggregates: { signups: { function: 'COUNT', field: '*' } }
+            });
+            expect(series.text).toContain('AND users.tenant_id = $3 AND users.deleted_at IS NULL');
+        });
+
+        test('should drop a scope only through unscoped', () => {
+            const withDeleted = scoped.unscoped('softDelete');
+            const first = withDeleted.buildSelectQuery({ tableName: 'users', fields: ['id'] });
+            const second = scoped.buildSelectQuery({ tableName: 'users', fields: ['id'] });
+
+            expect(first.selectQuery.text).toContain('WHERE users.tenant_id = $1');
+            expect(first.selectQuery.text).not.toContain('deleted_at');
+            expect(second.selectQuery.text).toContain('users.deleted_at IS NULL');
+            expect(scoped.getScopes()).toEqual(['tenant', 'softDelete']);
+            expect(withDeleted.getScopes()).toEqual(['tenant']);
+
+            expect(() => scoped.unscoped('tenants')).toThrow('Unknown scope: tenants');
+            expect(() => scoped.addScope('region', { region: 'eu' })).toThrow('Invalid scope field for region: region');
+            expect(() => scoped.addScope('tenant', {})).toThrow('Scope tenant requires at least one condition');
+        });
+
+        test('should apply scopes on status columns and reject computed fields', () => {
+            const orders = new QueryBuilder(SCHEMA, {
+                id: { dbField: 'orders.id', type: 'uuid' },
+                status: { dbField: 'orders.status', type: 'string' }
+            }).addScope('open', { status: 'open' });
+
+            const { selectQuery, countQuery } = orders.buildSelectQuery({ tableName: 'orders', fields: ['id'] });
+            expect(selectQuery.text).toContain('WHERE orders.status = $1');
+            expect(selectQuery.values).toEqual(['open', 10, 0]);
+            expect(countQuery!.text).toContain('WHERE orders.status = $1');
+
+            // userFieldMappings maps status to a CASE expression
+            expect(() => scoped.addScope('active', { status: 'ACTIVE' })).toThrow('Scope active cannot filter on computed field status');
+        });
+    });
+
+    describe('Field Access Policies', () => {
+        const staffFieldMappings: Record<string, FieldMapping> = {
+            id: { dbField: 'users.id', type: 'uuid', access: { read: ['admin'] } },
+            username: { dbField: 'users.username', type: 'string' },
+            email: { dbField: 'users.email', type: 'string', access: { filter: ['admin'], mask: ['staff'] } },
+            salary: { dbField: 'users.salary', type: 'number', access: { read: ['admin'], filter: ['admin'], sort: ['admin'] } },
+            createdAt: { dbField: 'users.created_at', type: 'timestamp' }
+        };
+        let staffBuilder: QueryBuilder;
+
+        beforeEach(() => {
+            staffBuilder = new QueryBuilder(SCHEMA, staffFieldMappings);
+        });
+
+        test('should select only readable fields by default and reject unreadable ones', () => {
+            const { selectQuery } = staffBuilder.buildSelectQuery({ tableName: 'users', access: { role: 'staff' } });
+
+            expect(selectQuery.text).toContain('SELECT users.username AS "username", users.email AS "email", users.created_at AS "createdAt", users.id AS "id"');
+            expect(selectQuery.text).not.toContain('salary');
+            expect(() => staffBuilder.buildSelectQuery({ tableName: 'users', fields: ['username', 'salary'], access: { role: 'staff' } }))
+                .toThrow('Access denied: role staff cannot read salary');
+            expect(staffBuilder.buildSelectQuery({ tableName: 'users', fields: ['salary'], access: { role: 'admin' } }).selectQuery.text)
+                .toContain('users.salary AS "salary"');
+        });
+
+        test('should check existence when the role cannot read id', () => {
+            const query = staffBuilder.buildExistsQuery({ tableName: 'users', queryParams: { username: 'bob' }, access: { role: 'staff' } });
+
+            expect(query.text.replace(/\s+/g, ' ').trim()).toBe('SELECT 1 FROM public.users WHERE users.username ILIKE $1 LIMIT 1');
+            expect(() => staffBuilder.buildExistsQuery({ tableName: 'users', queryParams: { salary: 100 }, access: { role: 'staff' } }))
+                .toThrow('Access denied');
+        });
+
+        test('should reject filters and sorts the role may not use in select and count queries', () => {
+            const build = (options: Partial<QueryOptions>) => staffBuilder.buildSelectQuery({ tableName: 'users', fields: ['username'], access: { role: 'staff' }, ...options });
+
+            expect(() => build({ queryParams: { salary_gte: 1000 } })).toThrow('Access denied: role staff cannot filter on salary');
+            expect(() => build({ filter: { or: [{ field: 'username', op: 'eq', value: 'x' }, { field: 'email', op: 'eq', value: 'x' }] } }))
+                .toThrow('Access denied: role staff cannot filter on email');
+            expect(() => build({ sortField: 'salary' })).toThrow('Access denied: role staff cannot sort by salary');
+            expect(() => build({ sort: [{ field: 'salary' }] })).toThrow('Access denied: role staff cannot sort by salary');
+            expect(() => build({ windows: [{ alias: 'total', fn: 'sum', field: 'salary' }] })).toThrow('Access denied: role staff cannot read salary');
+            expect(() => build({ access: { role: 'staff', filter: ['createdAt'] }, queryParams: { username: 'x' } }))
+                .toThrow('Access denied: role staff cannot filter on username');
+
+            const { countQuery } = build({ queryParams: { username: 'ann' }, requiredFilters: { salary: 10 } });
+            expect(countQuery!.text).toContain('WHERE users.salary = $1 AND users.username ILIKE $2');
+
+            const error = (() => {
+                try {
+                    build({ queryParams: { salary_gte: 1000 }, sortField: 'salary', collectErrors: true });
+                } catch (e) {
+                    return e as QueryValidationError;
+                }
+            })();
+            expect(error!.errors.map(e => [e.code, e.details.field, e.details.usage])).toEqual([
+                ['ACCESS_DENIED', 'salary', 'sort'],
+                ['ACCESS_DENIED', 'salary', 'filter']
+            ]);
+        });
+
+        test('should deny filters and sorts on masked fields unless they are granted', () => {
+            const maskedBuilder = new QueryBuilder(SCHEMA, {
+                ...staffFieldMappings,
+                salary: { dbField: 'users.salary', type: 'number', access: { mask: ['staff', 'hr'], sort: ['hr'] } }
+            } as Record<string, FieldMapping>);
+            const build = (access: AccessPolicy, options: Partial<QueryOptions>) =>
+                maskedBuilder.buildSelectQuery({ tableName: 'users', fields: ['username', 'salary'], access, ...options });
+
+            expect(() => build({ role: 'staff' }, { queryParams: { salary_gte: 100000 } })).toThrow('Access denied: role staff cannot filter on salary');
+            expect(() => build({ role: 'staff' }, { sortField: 'salary' })).toThrow('Access denied: role staff cannot sort by salary');
+            expect(() => build({ role: 'staff', mask: ['username'] }, { queryParams: { username: 'ann' } }))
+                .toThrow('Access denied: role staff cannot filter on username');
+
+            expect(build({ role: 'hr' }, { sortField: 'salary' }).selectQuery.text).toContain('ORDER BY users.salary DESC');
+            expect(() => build({ role: 'hr' }, { queryParams: { salary_gte: 100000 } })).toThrow('Access denied: role hr cannot filter on salary');
+            expect(build({ role: 'staff', filter: ['salary'] }, { queryParams: { salary_gte: 100000 } }).selectQuery.text)
+                .toContain('WHERE users.salary >= $1');
+        });
+
+        test('should keep cached queries apart per policy', () => {
+            const options = { tableName: 'users', fields: ['username'], queryParams: { email: 'a@example.com' } };
+
+            expect(staffBuilder.buildSelectQuery({ ...options, access: { role: 'admin' } }).selectQuery.text).toContain('users.email ILIKE $1');
+            expect(() => staffBuilder.buildSelectQuery({ ...options, access: { role: 'staff' } })).toThrow('Access denied');
+        });
+
+        test('should check group, aggregate and filter fields in aggregate queries', () => {
+            expect(() => staffBuilder.buildAggregateQuery({
+                tableName: 'users',
+                aggregates: { payroll: { function: 'SUM', field: 'salary' } },
+                access: { role: 'staff' }
+            })).toThrow('Access denied: role staff cannot read salary');
+            expect(() => staffBuilder.buildAggregateQuery({
+                tableName: 'users',
+                aggregates: { total: { function: 'COUNT', field: '*', filter: { field: 'salary', op: 'gt', value: 0 } } },
+                access: { role: 'staff' }
+            })).toThrow('Access denied: role staff cannot filter on salary');
+
+            const query = staffBuilder.buildAggregateQuery({
+                tableName: 'users',
+                aggregates: { total: { function: 'COUNT', field: '*' } },
+                groupBy: ['username'],
+                sort: [{ field: 'total', direction: 'DESC' }],
+                access: { role: 'staff' }
+            });
+            expect(query.text).toContain('COUNT(*) AS total');
+        });
+
+        test('should mask and omit fields in mapped rows', () => {
+            const row = { id: 'u1', username: 'ann', email: 'ann@example.com', created_at: '2024-01-01' };
+
+            expect(new ResponseMapper(staffFieldMappings, { access: { role: 'staff' } }).mapResponse(row))
+                .toEqual({ username: 'ann', email: MASKED_VALUE, createdAt: new Date('2024-01-01') });
+            expect(new ResponseMapper(staffFieldMappings, { access: { role: 'admin', mask: ['username'], omit: ['createdAt'] } }).mapResponse(row))
+                .toEqual({ id: 'u1', username: MASKED_VALUE, email: 'ann@example.com' });
+            expect(new ResponseMapper(staffFieldMappings, { access: { role: 'staff' } }).mapResponse({ username: 'bo', email: null }))
+                .toEqual({ username: 'bo', email: null });
+        });
+
+        test('should apply the role to included relations', () => {
+            staffBuilder.addRelation('payslips', {
+                type: 'hasMany',
+                table: 'payslips',
+                foreignKey: 'userId',
+                fieldMappings: {
+                    id: { dbField: 'payslips.id', type: 'uuid' },
+                    userId: { dbField: 'payslips.user_id', type: 'uuid' },
+                    amount: { dbField: 'payslips.amount', type: 'number', access: { read: ['admin'], filter: ['admin'] } }
+                }
+            });
+            const build = (include: any) => staffBuilder.buildSelectQuery({ tableName: 'users', fields: ['username'], include, access: { role: 'staff' } });
+
+            expect(build(['payslips']).selectQuery.text).toContain("json_build_object('id', payslips.id, 'userId', payslips.user_id)");
+            expect(() => build({ payslips: { fields: ['amount'] } })).toThrow('Access denied: role staff cannot read amount');
+            expect(() => build({ payslips: { filter: { field: 'amount', op: 'gt', value: 1 } } })).toThrow('Access denied: role staff cannot filter on amount');
+        });
     });
 
     describe('Edge Cases and Error Handling', () => {
@@ -242,16 +1411,112 @@ describe('QueryBuilder Test Suite', () => {
             expect(typeof mappedResult.metadata).toBe('object');
             expect(mappedResult.metadata).toEqual({ role: 'admin' });
         });
+
+        test('should read joined columns with the same name through their aliases', () => {
+            const joined = new QueryBuilder(SCHEMA, userFieldMappings).join({
+                type: 'LEFT',
+                table: 'profiles',
+                alias: 'profile',
+                on: [{ left: 'profileId', right: 'profile.id' }],
+                fieldMappings: { id: { dbField: 'profile.id', type: 'uuid' }, country: { dbField: 'profile.country', type: 'string' } }
+            });
+            const { selectQuery } = joined.buildSelectQuery({ tableName: 'users', fields: ['id', 'status', 'profile.id', 'profile.country'] });
+
+            expect(selectQuery.text).toContain(
+                `SELECT users.id AS "id", CASE WHEN users.is_active THEN 'ACTIVE' ELSE 'INACTIVE' END AS "status", profile.id AS "profile.id", profile.country AS "profile.country"`
+            );
+
+            const mapper = new ResponseMapper(joined.getFieldMappings());
+            expect(mapper.mapResponse({ id: 'u1', status: 'ACTIVE', 'profile.id': 'p1', 'profile.country': 'IN' }))
+                .toEqual({ id: 'u1', status: 'ACTIVE', profile: { id: 'p1', country: 'IN' } });
+        });
+
+        test('should deserialize values by field type', () => {
+            const typed: Record<string, FieldMapping> = {
+                total: { dbField: 'orders.total', type: 'number' },
+                views: { dbField: 'orders.views', type: 'bigint' },
+                price: { dbField: 'orders.price', type: 'money' },
+                paid: { dbField: 'orders.paid', type: 'boolean' },
+                placedAt: { dbField: 'orders.placed_at', type: 'timestamp' },
+                dueOn: { dbField: 'orders.due_on', type: 'date' },
+                meta: { dbField: 'orders.meta', type: 'json' },
+                receipt: { dbField: 'orders.receipt', type: 'bytea' },
+                'shipping.country': { dbField: 'orders.ship_country', type: 'string' },
+                'shipping.weight': { dbField: 'orders.ship_weight', type: 'double' }
+            };
+            const row = {
+                total: '1234.50',
+                views: '9007199254740993',
+                price: '$1,234.50',
+                paid: 't',
+                placedAt: '2024-03-01T10:00:00Z',
+                dueOn: '2024-03-31',
+                meta: '{"gift":true}',
+                receipt: '\\x414243',
+                'shipping.country': 'IN',
+                'shipping.weight': null
+            };
+
+            expect(new ResponseMapper(new Map(Object.entries(typed))).mapResponse(row)).toEqual({
+                total: 1234.5,
+                views: '9007199254740993',
+                price: '$1,234.50',
+                paid: true,
+                placedAt: new Date('2024-03-01T10:00:00Z'),
+                dueOn: new Date('2024-03-31'),
+                meta: { gift: true },
+                receipt: Buffer.from('ABC'),
+                shipping: { country: 'IN', weight: null }
+            });
+            expect(new ResponseMapper(typed, { bigint: 'bigint' }).mapResponse(row).views).toBe(BigInt('9007199254740993'));
+        });
     });
 
     describe('Utility Classes', () => {
-        // test('DateFilterUtils should generate correct date ranges', () => {
-        //     const monthRange = DateFilterUtils.getMonthRange(2023, 3);
-        //     const yearRange = DateFilterUtils.getYearRange(2023);
+        test('DateFilterUtils should build half-open ranges in a time zone', () => {
+            expect(DateFilterUtils.getMonthRange(2023, 3)).toEqual({
+                start: '2023-03-01T00:00:00.000Z',
+                end: '2023-04-01T00:00:00.000Z'
+            });
+            expect(DateFilterUtils.getYearRange(2024, 'Asia/Tokyo')).toEqual({
+                start: '2023-12-31T15:00:00.000Z',
+                end: '2024-12-31T15:00:00.000Z'
+            });
+            expect(DateFilterUtils.getQuarterRange(2026, 4, 'America/New_York')).toEqual({
+                start: '2026-10-01T04:00:00.000Z',
+                end: '2027-01-01T05:00:00.000Z'
+            });
+            expect(DateFilterUtils.getDateRange('2026-03-28,2026-03-29', 'Europe/London')).toEqual({
+                start: '2026-03-28T00:00:00.000Z',
+                end: '2026-03-29T23:00:00.000Z'
+            });
+        });
 
-        //     // expect(monthRange.start).toMatch(/^2023-02-28/);
-        //     // expect(yearRange.start).toMatch(/^2022-12-31/);
-        // });
+        test('DateFilterUtils should resolve relative ranges against a reference time', () => {
+            const now = new Date('2026-10-19T02:30:00Z');
+
+            expect(DateFilterUtils.getRelativeRange('today', 'America/Los_Angeles', now)).toEqual({
+                start: '2026-10-18T07:00:00.000Z',
+                end: '2026-10-19T07:00:00.000Z'
+            });
+            expect(DateFilterUtils.getRelativeRange('thisWeek', 'UTC', now)).toEqual({
+                start: '2026-10-19T00:00:00.000Z',
+                end: '2026-10-26T00:00:00.000Z'
+            });
+            expect(DateFilterUtils.getRelativeRange('lastQuarter', 'UTC', now)).toEqual({
+                start: '2026-07-01T00:00:00.000Z',
+                end: '2026-10-01T00:00:00.000Z'
+            });
+            expect(DateFilterUtils.getRelativeRange('ytd', 'UTC', now)).toEqual({
+                start: '2026-01-01T00:00:00.000Z',
+                end: '2026-10-19T02:30:00.000Z'
+            });
+            expect(DateFilterUtils.getLastRange('1m', 'UTC', now).start).toBe('2026-09-19T02:30:00.000Z');
+            expect(DateFilterUtils.toDateOnlyRange(DateFilterUtils.getIsoWeekRange('2026-W42', 'Asia/Tokyo'), 'Asia/Tokyo')).toEqual({
+                start: '2026-10-12',
+                end: '2026-10-19'
+            });
+        });
 
         test('PaginationBuilder should calculate pagination correctly', () => {
             const pagination: PaginationResult = PaginationBuilder.build(250, 20, 40);
@@ -260,6 +1525,36 @@ describe('QueryBuilder Test Suite', () => {
             expect(pagination.pageNumber).toBe(2);
             expect(pagination.hasNextPage).toBe(true);
         });
+
+        test('PaginationBuilder should build opaque cursors from the last and first rows', () => {
+            const rows = [
+                { id: 'c', createdAt: '2024-03-03' },
+                { id: 'b', createdAt: '2024-03-02' },
+                { id: 'a', createdAt: '2024-03-01' }
+            ];
+            const { data, pagination } = PaginationBuilder.buildCursor(rows, 2, ['createdAt', 'id']);
+
+            expect(data).toEqual(rows.slice(0, 2));
+            expect(pagination.hasNextPage).toBe(true);
+            expect(pagination.hasPrevPage).toBe(false);
+            expect(pagination.prevCursor).toBeNull();
+            expect(PaginationBuilder.decodeCursor(pagination.nextCursor!)).toEqual({
+                keys: ['createdAt', 'id'],
+                values: ['2024-03-02', 'b'],
+                backward: false
+            });
+            expect(() => PaginationBuilder.decodeCursor('not-a-cursor')).toThrow('Invalid pagination cursor');
+        });
+
+        test('PaginationBuilder should read dotted cursor keys from nested rows', () => {
+            const rows = [
+                { id: 'b', profile: { city: 'Oslo' } },
+                { id: 'a', profile: { city: 'Lima' } }
+            ];
+            const { pagination } = PaginationBuilder.buildCursor(rows, 1, ['profile.city', 'id']);
+
+            expect(PaginationBuilder.decodeCursor(pagination.nextCursor!).values).toEqual(['Oslo', 'b']);
+        });
     });
 
     describe('Query Structure Validation', () => {
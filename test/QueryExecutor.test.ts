@@ -0,0 +1,178 @@
+import { QueryExecutor, Queryable } from '../src/QueryExecutor';
+import { QueryBuilder, FieldMapping, PaginationBuilder } from '../src/QueryBuilder';
+
+const userFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'users.id', type: 'uuid' },
+    username: { dbField: 'users.username', type: 'string' },
+    isActive: { dbField: 'users.is_active', type: 'boolean' },
+    country: { dbField: 'users.country', type: 'string' },
+    createdAt: { dbField: 'users.created_at', type: 'timestamp' }
+};
+
+const SCHEMA = 'public';
+
+class FakeClient implements Queryable {
+    queries: { text: string, values: any[] }[] = [];
+
+    constructor(private respond: (text: string) => Record<string, any>[]) {}
+
+    async query(config: { text: string, values: any[] }): Promise<{ rows: Record<string, any>[] }> {
+        this.queries.push(config);
+        return { rows: this.respond(config.text) };
+    }
+}
+
+describe('QueryExecutor', () => {
+    const userRows = [
+        { id: 'u3', username: 'carol', is_active: true, created_at: '2024-03-03' },
+        { id: 'u2', username: 'bob', is_active: true, created_at: '2024-03-02' },
+        { id: 'u1', username: 'alice', is_active: false, created_at: '2024-03-01' }
+    ];
+
+    const respond = (text: string) => text.includes('COUNT(1)') ? [{ count: '42' }] : userRows;
+
+    test('findMany should run select and count queries and return mapped rows with pagination', async () => {
+        const client = new FakeClient(respond);
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, userFieldMappings));
+
+        const result = await executor.findMany({ tableName: 'users', fields: ['id', 'username'], limit: 10, offset: 20 });
+
+        expect(client.queries).toHaveLength(2);
+        expect(result.data[0]).toEqual({ id: 'u3', username: 'carol', isActive: true, createdAt: new Date('2024-03-03') });
+        expect(result.pagination).toMatchObject({ totalRowCount: 42, pageNumber: 2, totalPages: 5, hasNextPage: true });
+    });
+
+    test('findMany should return cursor pagination in cursor mode', async () => {
+        const client = new FakeClient(respond);
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, userFieldMappings));
+
+        const result = await executor.findMany({
+            tableName: 'users',
+            sortField: 'createdAt',
+            pagination: 'cursor',
+            limit: 2,
+            skipCount: true
+        });
+
+        expect(client.queries).toHaveLength(1);
+        expect(result.data.map(row => row.id)).toEqual(['u3', 'u2']);
+        expect(result.pagination.hasNextPage).toBe(true);
+        expect(result.pagination.nextCursor).toEqual(expect.any(String));
+    });
+
+    test('findMany should read cursors from keyset columns the caller did not request', async () => {
+        const client = new FakeClient(() => [
+            { username: 'carol', createdAt: '2024-03-03', id: 'u3' },
+            { username: 'bob', createdAt: '2024-03-02', id: 'u2' },
+            { username: 'alice', createdAt: '2024-03-01', id: 'u1' }
+        ]);
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, userFieldMappings));
+
+        const result = await executor.findMany({ tableName: 'users', fields: ['username'], sortField: 'createdAt', pagination: 'cursor', limit: 2, skipCount: true });
+
+        expect(result.data).toEqual([{ username: 'carol', id: 'u3' }, { username: 'bob', id: 'u2' }]);
+        expect(PaginationBuilder.decodeCursor(result.pagination.nextCursor!)).toMatchObject({
+            keys: ['createdAt', 'id'],
+            values: [new Date('2024-03-02').toISOString(), 'u2']
+        });
+    });
+
+    test('findMany should read cursors from dotted sort fields nested in the rows', async () => {
+        const client = new FakeClient(() => [
+            { id: 'u3', 'profile.city': 'Pune' },
+            { id: 'u2', 'profile.city': 'Oslo' },
+            { id: 'u1', 'profile.city': 'Lima' }
+        ]);
+        const builder = new QueryBuilder(SCHEMA, {
+            ...userFieldMappings,
+            'profile.city': { dbField: 'profiles.city', type: 'string' }
+        } as Record<string, FieldMapping>);
+        const executor = new QueryExecutor(client, builder);
+
+        const result = await executor.findMany({ tableName: 'users', fields: ['id', 'profile.city'], sortField: 'profile.city', sortDirection: 'DESC', pagination: 'cursor', limit: 2, skipCount: true });
+
+        expect(result.data).toEqual([{ id: 'u3', profile: { city: 'Pune' } }, { id: 'u2', profile: { city: 'Oslo' } }]);
+        expect(PaginationBuilder.decodeCursor(result.pagination.nextCursor!).values).toEqual(['Oslo', 'u2']);
+    });
+
+    test('findOne, exists and count should reuse the select builder', async () => {
+        const client = new FakeClient(respond);
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, userFieldMappings));
+
+        await expect(executor.findOne({ tableName: 'users', requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' } }))
+            .resolves.toMatchObject({ id: 'u3', username: 'carol' });
+        await expect(executor.exists({ tableName: 'users', requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' } })).resolves.toBe(true);
+        await expect(executor.count({ tableName: 'users', requiredFilters: { isActive: true } })).resolves.toBe(42);
+
+        expect(client.queries[0].values).toEqual(['3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60', 1, 0]);
+        expect(client.queries[1].text.replace(/\s+/g, ' ').trim()).toBe('SELECT 1 FROM public.users WHERE users.id = $1 LIMIT 1');
+        expect(client.queries[1].values).toEqual(['3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60']);
+
+        const empty = new QueryExecutor(new FakeClient(() => []), new QueryBuilder(SCHEMA, userFieldMappings));
+        await expect(empty.findOne({ tableName: 'users', requiredFilters: { id: '00000000-0000-4000-8000-000000000000' } })).resolves.toBeNull();
+        await expect(empty.exists({ tableName: 'users', requiredFilters: { id: '00000000-0000-4000-8000-000000000000' } })).resolves.toBe(false);
+    });
+
+    test('aggregate should map group columns and lower-cased aggregate aliases', async () => {
+        const client = new FakeClient(() => [{ country: 'IN', usercount: '7' }]);
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, userFieldMappings));
+
+        const rows = await executor.aggregate({
+            tableName: 'users',
+            aggregates: { userCount: { function: 'COUNT', field: 'id' } },
+            groupBy: ['country']
+        });
+
+        expect(rows).toEqual([{ country: 'IN', userCount: '7' }]);
+    });
+
+    test('findMany should keep search rank and headline columns', async () => {
+        const client = new FakeClient(text => text.includes('COUNT(1)')
+            ? [{ count: '1' }]
+            : [{ id: 'u1', username: 'alice', score: 0.6, headline: '<b>alice</b>' }]);
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, userFieldMappings));
+
+        const result = await executor.findMany({
+            tableName: 'users',
+            fields: ['id', 'username'],
+            search: { field: 'username', query: 'alice', rank: 'ts_rank', rankAlias: 'score', headline: { field: 'username' } }
+        });
+
+        expect(result.data).toEqual([{ id: 'u1', username: 'alice', score: 0.6, headline: '<b>alice</b>' }]);
+    });
+
+    test('findMany should reject skipCount with offset pagination', async () => {
+        const executor = new QueryExecutor(new FakeClient(respond), new QueryBuilder(SCHEMA, userFieldMappings));
+
+        await expect(executor.findMany({ tableName: 'users', skipCount: true }))
+            .rejects.toThrow('skipCount is only supported with cursor pagination');
+    });
+
+    test('findMany should mask fields for the caller role and keep their values out of cursors', async () => {
+        const client = new FakeClient(() => [
+            { id: 'u3', username: 'carol', salary: 250000, created_at: '2024-03-03' },
+            { id: 'u2', username: 'bob', salary: 180000, created_at: '2024-03-02' },
+            { id: 'u1', username: 'alice', salary: 120000, created_at: '2024-03-01' }
+        ]);
+        const restricted = {
+            ...userFieldMappings,
+            salary: { dbField: 'users.salary', type: 'number', access: { mask: ['viewer'], sort: ['viewer'] } }
+        } as Record<string, FieldMapping>;
+        const executor = new QueryExecutor(client, new QueryBuilder(SCHEMA, restricted));
+
+        const result = await executor.findMany({ tableName: 'users', fields: ['username', 'salary'], limit: 2, pagination: 'cursor', skipCount: true, access: { role: 'viewer' } });
+
+        expect(result.data.map(row => [row.username, row.salary])).toEqual([['carol', '***'], ['bob', '***']]);
+        const decoded = Buffer.from(result.pagination.nextCursor!, 'base64url').toString('utf8');
+        expect(decoded).not.toContain('180000');
+        expect(PaginationBuilder.decodeCursor(result.pagination.nextCursor!).values).toEqual(['u2']);
+
+        await expect(executor.findMany({ tableName: 'users', fields: ['username'], sortField: 'salary', pagination: 'cursor', access: { role: 'viewer' } }))
+            .rejects.toThrow('Access denied: role viewer cannot page by salary');
+        const hiddenIdMappings: Record<string, FieldMapping> = { ...restricted, id: { dbField: 'users.id', type: 'uuid', access: { read: ['admin'] } } };
+        const hiddenIds = new QueryExecutor(client, new QueryBuilder(SCHEMA, hiddenIdMappings));
+        await expect(hiddenIds.findMany({ tableName: 'users', fields: ['username'], pagination: 'cursor', access: { role: 'viewer' } }))
+            .rejects.toThrow('Access denied: role viewer cannot page by id');
+        expect(client.queries).toHaveLength(1);
+    });
+});
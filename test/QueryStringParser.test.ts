@@ -0,0 +1,115 @@
+import { QueryBuilder, FieldMapping, QueryParseError } from '../src/QueryBuilder';
+
+const userFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'users.id', type: 'uuid' },
+    username: { dbField: 'users.username', type: 'string' },
+    age: { dbField: 'users.age', type: 'number' },
+    isActive: { dbField: 'users.is_active', type: 'boolean' },
+    createdAt: { dbField: 'users.created_at', type: 'timestamp' }
+};
+
+const SCHEMA = 'public';
+
+describe('QueryStringParser', () => {
+    let builder: QueryBuilder;
+
+    beforeEach(() => {
+        builder = new QueryBuilder(SCHEMA, userFieldMappings);
+    });
+
+    const parseIssues = (fn: () => unknown) => {
+        try {
+            fn();
+        } catch (error) {
+            expect(error).toBeInstanceOf(QueryParseError);
+            return (error as QueryParseError).issues;
+        }
+        throw new Error('Expected QueryParseError');
+    };
+
+    test('should parse suffix syntax from a raw query string', () => {
+        const options = builder.parseQuery(
+            '?fields=id,username&limit=20&offset=40&sortField=age&sortDirection=asc&age_gte=18&isActive=true&username_like=jo',
+            { tableName: 'users' }
+        );
+
+        expect(options).toEqual({
+            tableName: 'users',
+            fields: ['id', 'username'],
+            limit: 20,
+            offset: 40,
+            sortField: 'age',
+            sortDirection: 'ASC',
+            queryParams: { age_gte: 18, isActive: true, username_like: 'jo' }
+        });
+    });
+
+    test('should parse bracket syntax for filters, sort and pages', () => {
+        const options = builder.parseQuery(
+            'filter[age][gte]=18&filter[username]=jo&sort=-createdAt&page[size]=20&page[number]=3',
+            { tableName: 'users', requiredFilters: { isActive: true } }
+        );
+
+        expect(options.queryParams).toEqual({ age_gte: 18, username: 'jo' });
+        expect(options.sortField).toBe('createdAt');
+        expect(options.sortDirection).toBe('DESC');
+        expect(options.limit).toBe(20);
+        expect(options.offset).toBe(40);
+        expect(options.requiredFilters).toEqual({ isActive: true });
+    });
+
+    test('should turn a multi-field sort into an ordered sort list', () => {
+        const options = builder.parseQuery('sort=-age,username', { tableName: 'users' });
+
+        expect(options.sort).toEqual([
+            { field: 'age', direction: 'DESC' },
+            { field: 'username', direction: 'ASC' }
+        ]);
+        expect(options.sortField).toBeUndefined();
+    });
+
+    test('should accept an already parsed query object', () => {
+        const options = builder.parseQuery(
+            { filter: { age: { lt: '65' } }, page: { size: '5' }, createdAt_dateRange: '2024-01-01,2024-12-31' },
+            { tableName: 'users' }
+        );
+
+        expect(options.queryParams).toEqual({ age_lt: 65, createdAt_dateRange: '2024-01-01,2024-12-31' });
+        expect(options.limit).toBe(5);
+    });
+
+    test('should report every unknown field, operator and cap violation', () => {
+        const issues = parseIssues(() => builder.parseQuery(
+            'fields=id,password&limit=500&offset=999999&nickname_eq=x&age_around=3&age=ten',
+            { tableName: 'users' }
+        ));
+
+        expect(issues.map(issue => issue.code)).toEqual([
+            'LIMIT_EXCEEDED',
+            'OFFSET_EXCEEDED',
+            'UNKNOWN_FIELD',
+            'UNKNOWN_FIELD',
+            'UNKNOWN_OPERATOR',
+            'INVALID_VALUE'
+        ]);
+        expect(issues[2]).toMatchObject({ param: 'fields', field: 'password' });
+        expect(issues[4]).toMatchObject({ param: 'age_around', field: 'age', operator: 'around' });
+    });
+
+    test('should coerce typed values and report ones that do not fit the field', () => {
+        const options = builder.parseQuery('age_in=30,40&isActive=true', { tableName: 'users' });
+        expect(options.queryParams).toEqual({ age_in: [30, 40], isActive: true });
+
+        const issues = parseIssues(() => builder.parseQuery('id=abc&createdAt_before=soon', { tableName: 'users' }));
+        expect(issues).toEqual([
+            expect.objectContaining({ param: 'id', code: 'INVALID_VALUE', value: 'abc' })
+        ]);
+        expect(issues[0].message).toBe('Invalid value for field id with operator eq: "abc" (expected a UUID)');
+    });
+
+    test('should honour custom caps', () => {
+        const issues = parseIssues(() => builder.parseQuery('limit=30', { tableName: 'users' }, { maxLimit: 25 }));
+
+        expect(issues).toEqual([expect.objectContaining({ param: 'limit', code: 'LIMIT_EXCEEDED' })]);
+    });
+});
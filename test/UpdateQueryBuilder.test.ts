@@ -0,0 +1,118 @@
+import { UpdateQueryBuilder } from '../src/UpdateQueryBuilder';
+import { FieldMapping, QueryBuilder } from '../src/QueryBuilder';
+
+const userFieldMappings: Record<string, FieldMapping> = {
+    id: { dbField: 'users.id', type: 'uuid' },
+    username: { dbField: 'users.username', type: 'string', required: true },
+    email: { dbField: 'users.email', type: 'string', validate: (v: string) => v.includes('@') },
+    role: { dbField: 'users.role', type: 'string', enumValues: ['admin', 'editor', 'viewer'] },
+    isActive: { dbField: 'users.is_active', type: 'boolean' },
+    status: {
+        dbField: `CASE WHEN users.is_active THEN 'ACTIVE' ELSE 'INACTIVE' END AS status`,
+        type: 'string'
+    }
+};
+
+const SCHEMA = 'public';
+
+describe('UpdateQueryBuilder', () => {
+    let builder: UpdateQueryBuilder;
+
+    beforeEach(() => {
+        builder = new UpdateQueryBuilder(SCHEMA, userFieldMappings);
+    });
+
+    test('should map payload keys to SET assignments and number WHERE params after them', () => {
+        const query = builder.buildUpdateQuery({
+            tableName: 'users',
+            data: { username: 'jane', isActive: false },
+            requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' }
+        });
+
+        const normalizedQuery = query.text.replace(/\s+/g, ' ').trim();
+        expect(normalizedQuery).toBe('UPDATE public.users SET username = $1, is_active = $2 WHERE users.id = $3');
+        expect(query.values).toEqual(['jane', false, '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60']);
+    });
+
+    test('should apply dynamic filters and RETURNING fields', () => {
+        const query = builder.buildUpdateQuery({
+            tableName: 'users',
+            data: { role: 'editor' },
+            queryParams: { username_like: 'jo' },
+            returning: ['id', 'role']
+        });
+
+        expect(query.text).toContain('WHERE users.username ILIKE $2');
+        expect(query.text).toContain('RETURNING users.id AS "id", users.role AS "role"');
+        expect(query.values).toEqual(['editor', '%jo%']);
+    });
+
+    test('should refuse to update without filters unless allowed', () => {
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: { isActive: true } }))
+            .toThrow('Refusing to build UPDATE without filter conditions');
+
+        const query = builder.buildUpdateQuery({ tableName: 'users', data: { isActive: true }, allowUnfiltered: true });
+        expect(query.text).not.toContain('WHERE');
+    });
+
+    test('should validate required, enumValues and validate callbacks', () => {
+        const filters = { requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' } };
+
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: { username: null }, ...filters }))
+            .toThrow('Field is required: username');
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: { role: 'owner' }, ...filters }))
+            .toThrow('Invalid value for role');
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: { email: 'nope' }, ...filters }))
+            .toThrow('Validation failed for field: email');
+    });
+
+    test('should reject unknown and computed fields', () => {
+        const filters = { requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' } };
+
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: { unknown: 1 }, ...filters }))
+            .toThrow('Invalid write field: unknown');
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: { status: 'ACTIVE' }, ...filters }))
+            .toThrow('Cannot write to computed field: status');
+        expect(() => builder.buildUpdateQuery({ tableName: 'users', data: {}, ...filters }))
+            .toThrow('No valid fields specified for update');
+    });
+
+    test('should map RETURNING rows back to camelCase', () => {
+        const rows = builder.mapReturning([{ id: 'uuid-1', is_active: true, role: 'admin' }]);
+
+        expect(rows).toEqual([{ id: 'uuid-1', isActive: true, role: 'admin' }]);
+    });
+
+    test('should add scope conditions after the request filters', () => {
+        const scoped = new UpdateQueryBuilder(SCHEMA, { ...userFieldMappings, tenantId: { dbField: 'users.tenant_id', type: 'string' } })
+            .addScope('tenant', { tenantId: 't1' });
+
+        const query = scoped.buildUpdateQuery({
+            tableName: 'users',
+            data: { isActive: false },
+            requiredFilters: { role: 'viewer', tenantId: 't2' }
+        });
+
+        expect(query.text.replace(/\s+/g, ' ').trim())
+            .toBe('UPDATE public.users SET is_active = $1 WHERE users.role = $2 AND users.tenant_id = $3 AND users.tenant_id = $4');
+        expect(query.values).toEqual([false, 'viewer', 't2', 't1']);
+        expect(() => scoped.buildUpdateQuery({ tableName: 'users', data: { isActive: false } }))
+            .toThrow('Refusing to build UPDATE without filter conditions');
+    });
+
+    test('should share the scopes of a QueryBuilder, including ones added later', () => {
+        const tenantMappings: Record<string, FieldMapping> = { ...userFieldMappings, tenantId: { dbField: 'users.tenant_id', type: 'string' } };
+        const reads = new QueryBuilder(SCHEMA, tenantMappings).addScope('tenant', { tenantId: 't1' });
+        const writes = new UpdateQueryBuilder(SCHEMA, tenantMappings).useScopes(reads);
+        reads.addScope('active', { isActive: true });
+
+        const query = writes.buildUpdateQuery({ tableName: 'users', data: { role: 'editor' }, requiredFilters: { id: '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60' } });
+
+        expect(query.text.replace(/\s+/g, ' ').trim())
+            .toBe('UPDATE public.users SET role = $1 WHERE users.id = $2 AND users.tenant_id = $3 AND users.is_active = $4');
+        expect(query.values).toEqual(['editor', '3f6c2a1e-8b4d-4c6e-9a7f-1d2e3c4b5a60', 't1', true]);
+        expect(writes.unscoped('active').buildUpdateQuery({ tableName: 'users', data: { role: 'editor' }, requiredFilters: { role: 'viewer' } }).values)
+            .toEqual(['editor', 'viewer', 't1']);
+        expect(reads.getScopes()).toEqual(['tenant', 'active']);
+    });
+});